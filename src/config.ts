@@ -6,15 +6,21 @@ import { resolve } from "path";
 // Load .env file
 loadDotenv();
 
+/**
+ * Contents of config.json: core settings plus provider settings, which are
+ * read by the provider registry
+ */
+type ConfigJson = Partial<Config> & Record<string, unknown>;
+
 /**
  * Load optional config.json overrides
  */
-function loadConfigJson(): Partial<Config> {
+function loadConfigJson(): ConfigJson {
   const configPath = resolve(process.cwd(), "config.json");
   if (existsSync(configPath)) {
     try {
       const content = readFileSync(configPath, "utf-8");
-      return JSON.parse(content) as Partial<Config>;
+      return JSON.parse(content) as ConfigJson;
     } catch (e) {
       console.warn(`Warning: Failed to parse config.json: ${e}`);
       return {};
@@ -44,6 +50,16 @@ function parseBoolean(value: string): boolean {
   return value.toLowerCase() === "true" || value === "1";
 }
 
+/**
+ * Parse a comma-separated list, dropping empty entries
+ */
+function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
 /**
  * Parse log level with validation
  */
@@ -55,37 +71,68 @@ function parseLogLevel(value: string): Config["logLevel"] {
   return "info";
 }
 
+/**
+ * Parse recovery policy with validation
+ */
+function parseRecoveryPolicy(value: string): Config["recoveryPolicy"] {
+  const valid = ["requeue", "resume", "fail"];
+  if (valid.includes(value)) {
+    return value as Config["recoveryPolicy"];
+  }
+  return "resume";
+}
+
+/**
+ * Parse the verification policy, defaulting to fail
+ */
+function parseVerificationPolicy(value: string): Config["verificationPolicy"] {
+  const valid = ["fix", "draft", "fail"];
+  if (valid.includes(value)) {
+    return value as Config["verificationPolicy"];
+  }
+  return "fail";
+}
+
+/**
+ * Parse a comma-separated list of retryable error kinds
+ */
+function parseErrorKinds(value: string): Config["retryOn"] {
+  const valid = [
+    "timeout",
+    "setup",
+    "claude_exit",
+    "push",
+    "provider_api",
+    "git",
+    "verification",
+    "unknown",
+  ];
+  return value
+    .split(",")
+    .map((kind) => kind.trim())
+    .filter((kind) => valid.includes(kind)) as Config["retryOn"];
+}
+
 // Load config.json overrides
-const jsonConfig = loadConfigJson();
+export const jsonConfig = loadConfigJson();
 
 /**
  * Resolved configuration from environment variables, .env file, and config.json
  */
 export const config: Config = {
-  // Linear API - optional (only required if using Linear provider)
-  linearApiKey: jsonConfig.linearApiKey || optionalOrUndefined("LINEAR_API_KEY"),
-  linearWebhookSecret:
-    jsonConfig.linearWebhookSecret || optionalOrUndefined("LINEAR_WEBHOOK_SECRET"),
-
-  // Linear settings - optional with defaults
-  linearTriggerLabel:
-    jsonConfig.linearTriggerLabel || optional("LINEAR_TRIGGER_LABEL", optional("TRIGGER_LABEL", "ai-attempt")),
-  repoCustomFieldName:
-    jsonConfig.repoCustomFieldName ||
-    optional("REPO_CUSTOM_FIELD_NAME", "Repository"),
-
-  // GitHub API - optional (only required if using GitHub provider)
+  // Code host credentials - used to open pull requests. Issue provider
+  // settings are declared by each provider (see providers/registry.ts)
   githubToken: jsonConfig.githubToken || optionalOrUndefined("GITHUB_TOKEN"),
-  githubWebhookSecret:
-    jsonConfig.githubWebhookSecret || optionalOrUndefined("GITHUB_WEBHOOK_SECRET"),
-
-  // GitHub settings - optional with defaults
-  githubTriggerLabel:
-    jsonConfig.githubTriggerLabel || optional("GITHUB_TRIGGER_LABEL", "ai-attempt"),
-  githubInProgressLabel:
-    jsonConfig.githubInProgressLabel || optional("GITHUB_IN_PROGRESS_LABEL", "in-progress"),
-  githubReviewLabel:
-    jsonConfig.githubReviewLabel || optional("GITHUB_REVIEW_LABEL", "review"),
+  githubAppId: jsonConfig.githubAppId || optionalOrUndefined("GITHUB_APP_ID"),
+  githubAppPrivateKey:
+    jsonConfig.githubAppPrivateKey || optionalOrUndefined("GITHUB_APP_PRIVATE_KEY"),
+  githubAppPrivateKeyPath:
+    jsonConfig.githubAppPrivateKeyPath || optionalOrUndefined("GITHUB_APP_PRIVATE_KEY_PATH"),
+  gitlabUrl: (jsonConfig.gitlabUrl || optional("GITLAB_URL", "https://gitlab.com")).replace(
+    /\/+$/,
+    ""
+  ),
+  gitlabToken: jsonConfig.gitlabToken || optionalOrUndefined("GITLAB_TOKEN"),
 
   // Git paths - required (no sensible default)
   reposBasePath:
@@ -95,6 +142,14 @@ export const config: Config = {
     jsonConfig.worktreesPath ||
     optional("WORKTREES_PATH", "").replace("~", process.env.HOME || ""),
 
+  // Repository cloning
+  repoUrlTemplate:
+    jsonConfig.repoUrlTemplate || optionalOrUndefined("REPO_URL_TEMPLATE"),
+  repoUrls: jsonConfig.repoUrls || {},
+
+  // Repository registry
+  repositories: jsonConfig.repositories || {},
+
   // Agent settings
   maxConcurrentAgents:
     jsonConfig.maxConcurrentAgents ||
@@ -105,6 +160,31 @@ export const config: Config = {
   agentTimeout:
     jsonConfig.agentTimeout ||
     parseInt(optional("AGENT_TIMEOUT", "1800000"), 10), // 30 minutes default
+  commandTimeout:
+    jsonConfig.commandTimeout ||
+    parseInt(optional("COMMAND_TIMEOUT", "600000"), 10), // 10 minutes default
+  agentMention:
+    jsonConfig.agentMention || optional("AGENT_MENTION", "@agent"),
+
+  // Per-repository overrides
+  repos: jsonConfig.repos || {},
+
+  // Named provider instances
+  providerInstances: jsonConfig.providerInstances || {},
+
+  // Retry policy
+  retryMaxAttempts:
+    jsonConfig.retryMaxAttempts ||
+    parseInt(optional("RETRY_MAX_ATTEMPTS", "3"), 10),
+  retryBaseDelay:
+    jsonConfig.retryBaseDelay ||
+    parseInt(optional("RETRY_BASE_DELAY", "60000"), 10), // 1 minute default
+  retryMaxDelay:
+    jsonConfig.retryMaxDelay ||
+    parseInt(optional("RETRY_MAX_DELAY", "900000"), 10), // 15 minutes default
+  retryOn:
+    jsonConfig.retryOn ||
+    parseErrorKinds(optional("RETRY_ON", "timeout,push,provider_api")),
 
   // Server
   port: jsonConfig.port || parseInt(optional("PORT", "3847"), 10),
@@ -113,12 +193,28 @@ export const config: Config = {
   autoCleanOrphans:
     jsonConfig.autoCleanOrphans ??
     parseBoolean(optional("AUTO_CLEAN_ORPHANS", "false")),
-
-  // Linear status mapping (used by Linear provider)
-  inProgressStatus:
-    jsonConfig.inProgressStatus || optional("IN_PROGRESS_STATUS", "In Progress"),
-  reviewStatus:
-    jsonConfig.reviewStatus || optional("REVIEW_STATUS", "In Review"),
+  removeWorktreeOnCancel:
+    jsonConfig.removeWorktreeOnCancel ??
+    parseBoolean(optional("REMOVE_WORKTREE_ON_CANCEL", "false")),
+  recoveryPolicy:
+    jsonConfig.recoveryPolicy ||
+    parseRecoveryPolicy(optional("RECOVERY_POLICY", "resume")),
+
+  // Verification
+  verificationPolicy:
+    jsonConfig.verificationPolicy ||
+    parseVerificationPolicy(optional("VERIFICATION_POLICY", "fail")),
+  agentMaxIterations:
+    jsonConfig.agentMaxIterations ||
+    parseInt(optional("AGENT_MAX_ITERATIONS", "1"), 10),
+
+  // Pull request defaults
+  prDraft: jsonConfig.prDraft ?? parseBoolean(optional("PR_DRAFT", "false")),
+  prReviewers: jsonConfig.prReviewers || parseList(optional("PR_REVIEWERS", "")),
+  prLabels: jsonConfig.prLabels || parseList(optional("PR_LABELS", "")),
+  prAssignees: jsonConfig.prAssignees || parseList(optional("PR_ASSIGNEES", "")),
+  prLinkIssue:
+    jsonConfig.prLinkIssue ?? parseBoolean(optional("PR_LINK_ISSUE", "true")),
 
   // Logging
   logLevel:
@@ -126,35 +222,11 @@ export const config: Config = {
 };
 
 /**
- * Validate configuration at startup
+ * Validate core configuration at startup
+ * Provider settings are checked by validateProviders() in providers/registry.ts
  */
 export function validateConfig(): void {
   const errors: string[] = [];
-  const warnings: string[] = [];
-
-  // At least one provider must be configured
-  const hasLinear = config.linearApiKey && config.linearWebhookSecret;
-  const hasGitHub = config.githubToken && config.githubWebhookSecret;
-
-  if (!hasLinear && !hasGitHub) {
-    errors.push(
-      "At least one provider must be configured. Set either LINEAR_API_KEY + LINEAR_WEBHOOK_SECRET or GITHUB_TOKEN + GITHUB_WEBHOOK_SECRET"
-    );
-  }
-
-  // Warn about partial configurations
-  if (config.linearApiKey && !config.linearWebhookSecret) {
-    warnings.push("LINEAR_API_KEY is set but LINEAR_WEBHOOK_SECRET is missing - Linear provider will not work");
-  }
-  if (!config.linearApiKey && config.linearWebhookSecret) {
-    warnings.push("LINEAR_WEBHOOK_SECRET is set but LINEAR_API_KEY is missing - Linear provider will not work");
-  }
-  if (config.githubToken && !config.githubWebhookSecret) {
-    warnings.push("GITHUB_TOKEN is set but GITHUB_WEBHOOK_SECRET is missing - GitHub provider will not work");
-  }
-  if (!config.githubToken && config.githubWebhookSecret) {
-    warnings.push("GITHUB_WEBHOOK_SECRET is set but GITHUB_TOKEN is missing - GitHub provider will not work");
-  }
 
   // Git paths are always required
   if (!config.reposBasePath) {
@@ -169,11 +241,6 @@ export function validateConfig(): void {
     );
   }
 
-  // Log warnings
-  for (const warning of warnings) {
-    console.warn(`Warning: ${warning}`);
-  }
-
   if (errors.length > 0) {
     throw new Error(
       `Configuration errors:\n${errors.map((e) => `  - ${e}`).join("\n")}`
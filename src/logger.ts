@@ -1,8 +1,8 @@
-import { appendFileSync, mkdirSync, existsSync } from "fs";
-import { dirname, resolve } from "path";
+import { appendFileSync, mkdirSync, existsSync, readFileSync } from "fs";
+import { dirname, isAbsolute, relative, resolve, sep } from "path";
 import { config } from "./config";
 
-type LogLevel = "error" | "warn" | "info" | "debug";
+export type LogLevel = "error" | "warn" | "info" | "debug";
 
 const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
   error: 0,
@@ -24,13 +24,18 @@ function formatMessage(
   return `[${timestamp}] [${level.toUpperCase()}] ${message}${contextStr}`;
 }
 
+/**
+ * Check if a message level is included when filtering at a given level
+ */
+export function isLevelIncluded(level: LogLevel, filterLevel: LogLevel): boolean {
+  return LOG_LEVEL_PRIORITY[level] <= LOG_LEVEL_PRIORITY[filterLevel];
+}
+
 /**
  * Check if a log level should be output based on configured level
  */
 function shouldLog(level: LogLevel): boolean {
-  const configuredPriority = LOG_LEVEL_PRIORITY[config.logLevel];
-  const messagePriority = LOG_LEVEL_PRIORITY[level];
-  return messagePriority <= configuredPriority;
+  return isLevelIncluded(level, config.logLevel);
 }
 
 /**
@@ -73,17 +78,109 @@ export interface IssueLogger {
   getLogPath(): string;
 }
 
+/**
+ * Directory holding per-issue log files
+ */
+const LOG_DIR = resolve(process.cwd(), "logs");
+
+/**
+ * Check that an issue ID names a log file inside the log directory
+ * IDs can come from request URLs, so "../" must not reach other files
+ */
+export function isValidIssueLogId(issueId: string): boolean {
+  const rel = relative(LOG_DIR, resolve(LOG_DIR, `${issueId}.log`));
+  return !!rel && rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+/**
+ * Get the log file path for an issue
+ * @throws Error if the path would be outside the log directory
+ */
+export function getIssueLogPath(issueId: string): string {
+  if (!isValidIssueLogId(issueId)) {
+    throw new Error(`Issue ID "${issueId}" does not map to a log file`);
+  }
+  return resolve(LOG_DIR, `${issueId}.log`);
+}
+
+/**
+ * A formatted line written to an issue log
+ */
+export interface LogEntry {
+  level: LogLevel;
+  line: string;
+}
+
+type LogListener = (entry: LogEntry) => void;
+
+// Live subscribers to issue logs, by issue identifier
+const logListeners: Map<string, Set<LogListener>> = new Map();
+
+/**
+ * Subscribe to entries written to an issue's log
+ * Returns a function that removes the subscription
+ */
+export function subscribeToIssueLog(
+  issueId: string,
+  listener: LogListener
+): () => void {
+  let listeners = logListeners.get(issueId);
+  if (!listeners) {
+    listeners = new Set();
+    logListeners.set(issueId, listeners);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      logListeners.delete(issueId);
+    }
+  };
+}
+
+const LOG_LINE_PATTERN = /^\[[^\]]+\] \[(ERROR|WARN|INFO|DEBUG)\]/;
+
+/**
+ * Read the existing entries of an issue log
+ * Continuation lines of multi-line messages keep the level of their entry
+ */
+export function readIssueLog(issueId: string): LogEntry[] {
+  if (!isValidIssueLogId(issueId)) {
+    return [];
+  }
+  const logPath = getIssueLogPath(issueId);
+  if (!existsSync(logPath)) {
+    return [];
+  }
+
+  const entries: LogEntry[] = [];
+  const lines = readFileSync(logPath, "utf-8").split("\n");
+  let level: LogLevel = "info";
+
+  for (const line of lines) {
+    const match = line.match(LOG_LINE_PATTERN);
+    if (match) {
+      level = match[1].toLowerCase() as LogLevel;
+    }
+    if (line.length > 0) {
+      entries.push({ level, line });
+    }
+  }
+
+  return entries;
+}
+
 /**
  * Create a logger that writes to a file for a specific issue
  * Also outputs to stdout for real-time visibility
  */
 export function createIssueLogger(issueId: string): IssueLogger {
-  const logDir = resolve(process.cwd(), "logs");
-  const logPath = resolve(logDir, `${issueId}.log`);
+  const logPath = getIssueLogPath(issueId);
 
-  // Ensure logs directory exists
-  if (!existsSync(logDir)) {
-    mkdirSync(logDir, { recursive: true });
+  // Ensure logs directory exists (identifiers like owner/repo#1 nest)
+  if (!existsSync(dirname(logPath))) {
+    mkdirSync(dirname(logPath), { recursive: true });
   }
 
   const writeToFile = (
@@ -102,6 +199,11 @@ export function createIssueLogger(issueId: string): IssueLogger {
       });
     }
 
+    // Notify live subscribers
+    for (const listener of logListeners.get(issueId) ?? []) {
+      listener({ level, line: formatted });
+    }
+
     // Also output to stdout based on log level
     if (shouldLog(level)) {
       const prefix = `[${issueId}]`;
@@ -0,0 +1,230 @@
+import { config } from "../../config";
+import { logger } from "../../logger";
+import type { CreatePullRequestInput, GitCredentials } from "../types";
+import { GitHubApp, getGitHubAuth, type GitHubAuth } from "./app";
+
+/**
+ * GitHub API response types
+ */
+export interface GitHubPullRequest {
+  number: number;
+  html_url: string;
+  state: "open" | "closed";
+  draft: boolean;
+  title: string;
+  head: { ref: string };
+  base: { ref: string };
+}
+
+/**
+ * Credentials from the core configuration, used for pull requests
+ */
+function getDefaultAuth(): GitHubAuth | undefined {
+  return getGitHubAuth({
+    token: config.githubToken,
+    appId: config.githubAppId,
+    privateKey: config.githubAppPrivateKey,
+    privateKeyPath: config.githubAppPrivateKeyPath,
+  });
+}
+
+/**
+ * Typed client for the GitHub REST API
+ *
+ * Shared by the GitHub issue provider and pull request creation, so PRs
+ * can be opened for any task whose repository lives on GitHub.
+ * Repositories are passed as "owner/repo".
+ *
+ * Authenticates with a personal access token or as a GitHub App. App
+ * requests use the installation token of the repository in the request
+ * path, so only repository endpoints are available to them.
+ */
+export class GitHubApiClient {
+  private baseUrl = "https://api.github.com";
+  private auth: GitHubAuth;
+  private login: string | null = null;
+
+  constructor(auth = getDefaultAuth()) {
+    if (!auth) {
+      throw new Error(
+        "GITHUB_TOKEN or GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY are required for the GitHub API"
+      );
+    }
+    this.auth = auth;
+  }
+
+  /**
+   * Get the token for a request
+   * GitHub App tokens belong to the installation owning the repository
+   */
+  private async getToken(path: string): Promise<string> {
+    if (!(this.auth instanceof GitHubApp)) {
+      return this.auth;
+    }
+    const repo = path.match(/^\/repos\/([^/]+\/[^/?]+)/)?.[1];
+    if (!repo) {
+      throw new Error(`GitHub App requests must target a repository: ${path}`);
+    }
+    return this.auth.getTokenForRepo(repo);
+  }
+
+  /**
+   * Make an authenticated request to the GitHub API
+   */
+  async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const url = `${this.baseUrl}${path}`;
+    logger.debug(`GitHub API: ${method} ${path}`);
+    const token = await this.getToken(path);
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: "application/vnd.github.v3+json",
+        "Content-Type": "application/json",
+        "User-Agent": "issue-agent",
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `GitHub API error: ${response.status} ${response.statusText} - ${errorText}`
+      );
+    }
+
+    // Handle 204 No Content responses
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  /**
+   * Get the login actions are attributed to: the app's bot user for a
+   * GitHub App, otherwise the token's user (cached)
+   */
+  async getAuthenticatedLogin(): Promise<string> {
+    if (!this.login) {
+      this.login =
+        this.auth instanceof GitHubApp
+          ? await this.auth.getBotLogin()
+          : (await this.request<{ login: string }>("GET", "/user")).login;
+    }
+    return this.login;
+  }
+
+  /**
+   * Record the GitHub App installation for an account, from a webhook payload
+   * Ignored when authenticating with a token
+   */
+  rememberInstallation(owner: string, installationId: number): void {
+    if (this.auth instanceof GitHubApp) {
+      this.auth.rememberInstallation(owner, installationId);
+    }
+  }
+
+  /**
+   * Get credentials for pushing to a repository over HTTPS
+   * Only GitHub Apps supply them; with a token, pushes use the remote's own
+   * credentials.
+   */
+  async getGitCredentials(repo: string): Promise<GitCredentials | null> {
+    if (!(this.auth instanceof GitHubApp)) {
+      return null;
+    }
+    return {
+      url: `https://github.com/${repo}.git`,
+      username: "x-access-token",
+      password: await this.auth.getTokenForRepo(repo),
+    };
+  }
+
+  /**
+   * Get a pull request by number
+   */
+  async getPullRequest(repo: string, number: number): Promise<GitHubPullRequest> {
+    return this.request<GitHubPullRequest>("GET", `/repos/${repo}/pulls/${number}`);
+  }
+
+  /**
+   * Find the open pull request for a branch, if any
+   */
+  async findOpenPullRequest(
+    repo: string,
+    branch: string
+  ): Promise<GitHubPullRequest | null> {
+    const owner = repo.split("/")[0];
+    const pulls = await this.request<GitHubPullRequest[]>(
+      "GET",
+      `/repos/${repo}/pulls?state=open&head=${encodeURIComponent(`${owner}:${branch}`)}`
+    );
+    return pulls[0] ?? null;
+  }
+
+  /**
+   * Open a pull request
+   */
+  async createPullRequest(
+    repo: string,
+    input: CreatePullRequestInput
+  ): Promise<GitHubPullRequest> {
+    return this.request<GitHubPullRequest>("POST", `/repos/${repo}/pulls`, input);
+  }
+
+  /**
+   * Update the title and body of a pull request
+   */
+  async updatePullRequest(
+    repo: string,
+    number: number,
+    changes: { title?: string; body?: string }
+  ): Promise<GitHubPullRequest> {
+    return this.request<GitHubPullRequest>(
+      "PATCH",
+      `/repos/${repo}/pulls/${number}`,
+      changes
+    );
+  }
+
+  /**
+   * Request reviews from users and teams
+   * @param reviewers - GitHub logins, or "org/team" slugs for teams
+   */
+  async requestReviewers(
+    repo: string,
+    number: number,
+    reviewers: string[]
+  ): Promise<void> {
+    const users = reviewers.filter((r) => !r.includes("/"));
+    const teams = reviewers
+      .filter((r) => r.includes("/"))
+      .map((r) => r.split("/")[1]);
+    await this.request("POST", `/repos/${repo}/pulls/${number}/requested_reviewers`, {
+      reviewers: users,
+      team_reviewers: teams,
+    });
+  }
+
+  /**
+   * Add labels to an issue or pull request
+   */
+  async addLabels(repo: string, number: number, labels: string[]): Promise<void> {
+    await this.request("POST", `/repos/${repo}/issues/${number}/labels`, { labels });
+  }
+
+  /**
+   * Add assignees to an issue or pull request
+   */
+  async addAssignees(
+    repo: string,
+    number: number,
+    assignees: string[]
+  ): Promise<void> {
+    await this.request("POST", `/repos/${repo}/issues/${number}/assignees`, {
+      assignees,
+    });
+  }
+}
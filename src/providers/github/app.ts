@@ -0,0 +1,211 @@
+import { createSign } from "crypto";
+import { readFileSync } from "fs";
+import { logger } from "../../logger";
+
+/**
+ * GitHub API response types
+ */
+interface GitHubInstallation {
+  id: number;
+}
+
+interface GitHubInstallationToken {
+  token: string;
+  expires_at: string;
+}
+
+interface CachedToken {
+  token: string;
+  expiresAt: number;
+}
+
+// Installation tokens last an hour; refresh them this long before expiry
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Authentication as a GitHub App
+ *
+ * Requests are signed with a short-lived JWT for the app, exchanged for an
+ * installation token for the account owning the repository. Installation
+ * tokens are cached until shortly before they expire, and installations
+ * are looked up per owner unless a webhook already told us the ID.
+ */
+export class GitHubApp {
+  private baseUrl = "https://api.github.com";
+  private tokens = new Map<number, CachedToken>();
+  // Installation IDs by lowercase owner login
+  private installations = new Map<string, number>();
+  private slug: string | null = null;
+
+  constructor(
+    readonly appId: string,
+    private privateKey: string
+  ) {}
+
+  /**
+   * Create a JWT identifying the app, valid for ten minutes
+   * Issued a minute in the past to allow for clock drift
+   */
+  createJwt(): string {
+    const now = Math.floor(Date.now() / 1000);
+    const encode = (value: object) =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+    const unsigned = `${encode({ alg: "RS256", typ: "JWT" })}.${encode({
+      iat: now - 60,
+      exp: now + 9 * 60,
+      iss: this.appId,
+    })}`;
+    const signature = createSign("RSA-SHA256")
+      .update(unsigned)
+      .sign(this.privateKey, "base64url");
+    return `${unsigned}.${signature}`;
+  }
+
+  /**
+   * Make a request to the GitHub API as the app itself
+   */
+  private async request<T>(method: string, path: string): Promise<T> {
+    logger.debug(`GitHub App API: ${method} ${path}`);
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.createJwt()}`,
+        Accept: "application/vnd.github.v3+json",
+        "User-Agent": "issue-agent",
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `GitHub App API error: ${response.status} ${response.statusText} - ${errorText}`
+      );
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  /**
+   * Record the installation for an account, as sent in webhook payloads
+   */
+  rememberInstallation(owner: string, installationId: number): void {
+    this.installations.set(owner.toLowerCase(), installationId);
+  }
+
+  /**
+   * Get the installation ID for a repository's owner (cached)
+   * @param repo - Repository as owner/repo
+   */
+  async getInstallationId(repo: string): Promise<number> {
+    const owner = repo.split("/")[0].toLowerCase();
+    let installationId = this.installations.get(owner);
+    if (installationId === undefined) {
+      const installation = await this.request<GitHubInstallation>(
+        "GET",
+        `/repos/${repo}/installation`
+      );
+      installationId = installation.id;
+      this.installations.set(owner, installationId);
+    }
+    return installationId;
+  }
+
+  /**
+   * Get an installation token, reusing the cached one until it nears expiry
+   */
+  async getInstallationToken(installationId: number): Promise<string> {
+    const cached = this.tokens.get(installationId);
+    if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return cached.token;
+    }
+
+    const created = await this.request<GitHubInstallationToken>(
+      "POST",
+      `/app/installations/${installationId}/access_tokens`
+    );
+    this.tokens.set(installationId, {
+      token: created.token,
+      expiresAt: new Date(created.expires_at).getTime(),
+    });
+    logger.debug("Created GitHub App installation token", {
+      installationId,
+      expiresAt: created.expires_at,
+    });
+    return created.token;
+  }
+
+  /**
+   * Get an installation token for the installation covering a repository
+   * @param repo - Repository as owner/repo
+   */
+  async getTokenForRepo(repo: string): Promise<string> {
+    return this.getInstallationToken(await this.getInstallationId(repo));
+  }
+
+  /**
+   * Get the login of the app's bot user, e.g. "issue-agent[bot]"
+   */
+  async getBotLogin(): Promise<string> {
+    if (!this.slug) {
+      const app = await this.request<{ slug: string }>("GET", "/app");
+      this.slug = app.slug;
+    }
+    return `${this.slug}[bot]`;
+  }
+}
+
+/**
+ * Credentials accepted for the GitHub API
+ */
+export interface GitHubAuthSettings {
+  token?: string;
+  appId?: string;
+  /** PEM private key; "\n" escapes are allowed so it fits in one line */
+  privateKey?: string;
+  /** Path to the PEM private key file, used when privateKey is not set */
+  privateKeyPath?: string;
+}
+
+/**
+ * How GitHub requests are authenticated: a personal access token, or a
+ * GitHub App whose installation token is picked per repository
+ */
+export type GitHubAuth = string | GitHubApp;
+
+// Apps by ID, so every client of an app shares its tokens and installations
+const apps = new Map<string, GitHubApp>();
+
+/**
+ * Read a GitHub App's private key, inline or from its key file
+ * @throws Error if neither is set or the file can't be read
+ */
+function readPrivateKey(settings: GitHubAuthSettings): string {
+  if (settings.privateKey) {
+    return settings.privateKey.replace(/\\n/g, "\n");
+  }
+  const keyPath = settings.privateKeyPath;
+  if (!keyPath) {
+    throw new Error(
+      "GITHUB_APP_PRIVATE_KEY or GITHUB_APP_PRIVATE_KEY_PATH is required for a GitHub App"
+    );
+  }
+  return readFileSync(keyPath.replace(/^~/, process.env.HOME || ""), "utf-8");
+}
+
+/**
+ * Resolve GitHub credentials, preferring a GitHub App over a token
+ * @returns The credentials, or undefined if none are configured
+ * @throws Error if the app's private key file can't be read
+ */
+export function getGitHubAuth(settings: GitHubAuthSettings): GitHubAuth | undefined {
+  if (settings.appId && (settings.privateKey || settings.privateKeyPath)) {
+    let app = apps.get(settings.appId);
+    if (!app) {
+      app = new GitHubApp(settings.appId, readPrivateKey(settings));
+      apps.set(settings.appId, app);
+    }
+    return app;
+  }
+  return settings.token;
+}
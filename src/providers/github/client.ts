@@ -1,7 +1,16 @@
 import { config } from "../../config";
 import { logger } from "../../logger";
-import type { Issue, IssueLabel, IssueComment, ParentIssue } from "../../types";
+import type {
+  Issue,
+  IssueLabel,
+  IssueComment,
+  ParentIssue,
+  ReviewComment,
+} from "../../types";
 import type { IssueClient } from "../types";
+import { GitHubApiClient } from "./api";
+import { getGitHubAuth } from "./app";
+import type { GitHubSettings } from "./index";
 
 /**
  * GitHub API response types
@@ -24,6 +33,14 @@ interface GitHubComment {
   user: GitHubUser;
 }
 
+interface GitHubReviewComment {
+  id: number;
+  body: string;
+  path?: string;
+  line?: number | null;
+  user: GitHubUser;
+}
+
 interface GitHubIssue {
   id: number;
   number: number;
@@ -34,6 +51,7 @@ interface GitHubIssue {
   created_at: string;
   updated_at: string;
   state: "open" | "closed";
+  html_url: string;
 }
 
 /**
@@ -46,49 +64,17 @@ interface GitHubIssue {
  */
 export class GitHubIssueClient implements IssueClient {
   readonly provider = "github" as const;
-  private baseUrl = "https://api.github.com";
+  private api: GitHubApiClient;
 
-  constructor() {
-    if (!config.githubToken) {
-      throw new Error("GITHUB_TOKEN is required for GitHub provider");
-    }
+  constructor(private settings: GitHubSettings) {
+    this.api = new GitHubApiClient(getGitHubAuth(settings));
   }
 
   /**
    * Make an authenticated request to the GitHub API
    */
-  private async request<T>(
-    method: string,
-    path: string,
-    body?: unknown
-  ): Promise<T> {
-    const url = `${this.baseUrl}${path}`;
-    logger.debug(`GitHub API: ${method} ${path}`);
-
-    const response = await fetch(url, {
-      method,
-      headers: {
-        Authorization: `Bearer ${config.githubToken}`,
-        Accept: "application/vnd.github.v3+json",
-        "Content-Type": "application/json",
-        "User-Agent": "issue-agent",
-      },
-      body: body ? JSON.stringify(body) : undefined,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `GitHub API error: ${response.status} ${response.statusText} - ${errorText}`
-      );
-    }
-
-    // Handle 204 No Content responses
-    if (response.status === 204) {
-      return undefined as T;
-    }
-
-    return response.json() as Promise<T>;
+  private request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    return this.api.request<T>(method, path, body);
   }
 
   /**
@@ -160,9 +146,11 @@ export class GitHubIssueClient implements IssueClient {
         comments,
         parent,
         repository: `${owner}/${repo}`,
+        url: ghIssue.html_url,
         metadata: {
           number: ghIssue.number,
           state: ghIssue.state,
+          author: ghIssue.user.login,
           owner,
           repo,
         },
@@ -198,8 +186,8 @@ export class GitHubIssueClient implements IssueClient {
     );
 
     const currentLabels = ghIssue.labels.map((l) => l.name);
-    const inProgressLabel = config.githubInProgressLabel;
-    const reviewLabel = config.githubReviewLabel;
+    const inProgressLabel = this.settings.inProgressLabel;
+    const reviewLabel = this.settings.reviewLabel;
 
     // Calculate new label set
     let newLabels = currentLabels.filter(
@@ -235,6 +223,77 @@ export class GitHubIssueClient implements IssueClient {
     logger.info(`Added comment to GitHub issue ${issueId}`);
   }
 
+  /**
+   * Get the login the agent acts as: the token's user, or the GitHub App's
+   * bot user (cached)
+   * Used to ignore webhook events caused by the agent itself
+   */
+  async getAuthenticatedLogin(): Promise<string> {
+    return this.api.getAuthenticatedLogin();
+  }
+
+  /**
+   * Record the GitHub App installation for an account, from a webhook payload
+   */
+  rememberInstallation(owner: string, installationId: number): void {
+    this.api.rememberInstallation(owner, installationId);
+  }
+
+  /**
+   * Fetch the inline comments of a pull request review
+   * @param repo - Repository as owner/repo
+   */
+  async getReviewComments(
+    repo: string,
+    prNumber: number,
+    reviewId: number
+  ): Promise<ReviewComment[]> {
+    const comments = await this.request<GitHubReviewComment[]>(
+      "GET",
+      `/repos/${repo}/pulls/${prNumber}/reviews/${reviewId}/comments`
+    );
+    return comments.map((comment) => ({
+      id: comment.id,
+      author: comment.user.login,
+      body: comment.body,
+      path: comment.path,
+      line: comment.line ?? undefined,
+    }));
+  }
+
+  /**
+   * Reply in the thread of a pull request review comment
+   * @param repo - Repository as owner/repo
+   */
+  async replyToReviewComment(
+    repo: string,
+    prNumber: number,
+    commentId: number,
+    body: string
+  ): Promise<void> {
+    await this.request(
+      "POST",
+      `/repos/${repo}/pulls/${prNumber}/comments/${commentId}/replies`,
+      { body }
+    );
+    logger.info(`Replied to review comment ${commentId} on ${repo}#${prNumber}`);
+  }
+
+  /**
+   * Add a top-level comment to a pull request
+   * @param repo - Repository as owner/repo
+   */
+  async addPullRequestComment(
+    repo: string,
+    prNumber: number,
+    body: string
+  ): Promise<void> {
+    await this.request("POST", `/repos/${repo}/issues/${prNumber}/comments`, {
+      body,
+    });
+    logger.info(`Added comment to pull request ${repo}#${prNumber}`);
+  }
+
   /**
    * Get repository from issue
    * For GitHub, this is already stored in the issue's repository field
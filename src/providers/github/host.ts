@@ -0,0 +1,89 @@
+import type {
+  CodeHostClient,
+  CreatePullRequestInput,
+  GitCredentials,
+  HostedPullRequest,
+} from "../types";
+import { GitHubApiClient, type GitHubPullRequest } from "./api";
+
+/**
+ * Convert a GitHub pull request to the common format
+ */
+function toHosted(pr: GitHubPullRequest): HostedPullRequest {
+  return {
+    number: pr.number,
+    url: pr.html_url,
+    draft: pr.draft,
+    open: pr.state === "open",
+  };
+}
+
+/**
+ * Get owner/repo from a github.com remote URL (HTTPS or SSH)
+ */
+export function parseGitHubRemote(url: string): string | null {
+  const match = url.match(/github\.com[:/]([^/]+)\/([^/]+?)(\.git)?\/?$/);
+  return match ? `${match[1]}/${match[2]}` : null;
+}
+
+/**
+ * GitHub code host: opens pull requests through the REST API
+ * Projects are "owner/repo"
+ */
+export class GitHubCodeHost implements CodeHostClient {
+  readonly host = "github" as const;
+
+  constructor(private api = new GitHubApiClient()) {}
+
+  parseRemote(url: string): string | null {
+    return parseGitHubRemote(url);
+  }
+
+  parsePullRequestUrl(url: string): { project: string; number: number } | null {
+    const match = url.match(/^https:\/\/github\.com\/([^/]+\/[^/]+)\/pull\/(\d+)/);
+    return match ? { project: match[1], number: Number(match[2]) } : null;
+  }
+
+  async getPullRequest(project: string, number: number): Promise<HostedPullRequest> {
+    return toHosted(await this.api.getPullRequest(project, number));
+  }
+
+  async findOpenPullRequest(
+    project: string,
+    branch: string
+  ): Promise<HostedPullRequest | null> {
+    const pr = await this.api.findOpenPullRequest(project, branch);
+    return pr ? toHosted(pr) : null;
+  }
+
+  async createPullRequest(
+    project: string,
+    input: CreatePullRequestInput
+  ): Promise<HostedPullRequest> {
+    return toHosted(await this.api.createPullRequest(project, input));
+  }
+
+  async updatePullRequest(
+    project: string,
+    number: number,
+    changes: { title: string; body: string }
+  ): Promise<HostedPullRequest> {
+    return toHosted(await this.api.updatePullRequest(project, number, changes));
+  }
+
+  async requestReviewers(project: string, number: number, reviewers: string[]): Promise<void> {
+    await this.api.requestReviewers(project, number, reviewers);
+  }
+
+  async addLabels(project: string, number: number, labels: string[]): Promise<void> {
+    await this.api.addLabels(project, number, labels);
+  }
+
+  async addAssignees(project: string, number: number, assignees: string[]): Promise<void> {
+    await this.api.addAssignees(project, number, assignees);
+  }
+
+  async getPushCredentials(project: string): Promise<GitCredentials | null> {
+    return this.api.getGitCredentials(project);
+  }
+}
@@ -0,0 +1,103 @@
+import type { ProviderDefinition } from "../registry";
+import type { GitHubAuthSettings } from "./app";
+import { GitHubIssueClient } from "./client";
+import { githubWebhook } from "./webhook";
+
+/**
+ * Settings of the GitHub Issues provider
+ * Credentials are a token or a GitHub App (appId and a private key)
+ */
+export interface GitHubSettings extends GitHubAuthSettings {
+  webhookSecret: string;
+  triggerLabel: string;
+  inProgressLabel: string;
+  reviewLabel: string;
+}
+
+/**
+ * GitHub Issues provider, mounted at /webhook/github
+ */
+export const githubProvider: ProviderDefinition<GitHubSettings> = {
+  name: "github",
+  displayName: "GitHub",
+  configSchema: [
+    {
+      key: "token",
+      env: "GITHUB_TOKEN",
+      jsonKey: "githubToken",
+      description: "GitHub token with access to issues",
+    },
+    {
+      key: "appId",
+      env: "GITHUB_APP_ID",
+      jsonKey: "githubAppId",
+      description: "GitHub App ID, to act as the app instead of a token",
+    },
+    {
+      key: "privateKey",
+      env: "GITHUB_APP_PRIVATE_KEY",
+      jsonKey: "githubAppPrivateKey",
+      description: "GitHub App private key (PEM)",
+    },
+    {
+      key: "privateKeyPath",
+      env: "GITHUB_APP_PRIVATE_KEY_PATH",
+      jsonKey: "githubAppPrivateKeyPath",
+      description: "Path to the GitHub App private key file",
+    },
+    {
+      key: "webhookSecret",
+      env: "GITHUB_WEBHOOK_SECRET",
+      jsonKey: "githubWebhookSecret",
+      required: true,
+      description: "Secret used to verify GitHub webhook signatures",
+    },
+    {
+      key: "triggerLabel",
+      env: "GITHUB_TRIGGER_LABEL",
+      jsonKey: "githubTriggerLabel",
+      default: "ai-attempt",
+      description: "Label that triggers the agent",
+    },
+    {
+      key: "inProgressLabel",
+      env: "GITHUB_IN_PROGRESS_LABEL",
+      jsonKey: "githubInProgressLabel",
+      default: "in-progress",
+      description: "Label added when the agent starts",
+    },
+    {
+      key: "reviewLabel",
+      env: "GITHUB_REVIEW_LABEL",
+      jsonKey: "githubReviewLabel",
+      default: "review",
+      description: "Label added when the PR is opened",
+    },
+  ],
+  webhook: githubWebhook,
+  createClient: (settings) => new GitHubIssueClient(settings),
+  getMissingSettings: (settings) =>
+    hasCredentials(settings) ? [] : ["GITHUB_TOKEN (or GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY)"],
+  validate: (settings) => {
+    const warnings: string[] = [];
+    if (settings.appId && !settings.privateKey && !settings.privateKeyPath) {
+      warnings.push(
+        "GITHUB_APP_ID is set but GITHUB_APP_PRIVATE_KEY and GITHUB_APP_PRIVATE_KEY_PATH are missing - the GitHub App will not be used"
+      );
+    }
+    if (hasCredentials(settings) && !settings.webhookSecret) {
+      warnings.push("GitHub credentials are set but GITHUB_WEBHOOK_SECRET is missing - GitHub provider will not work");
+    }
+    if (!hasCredentials(settings) && settings.webhookSecret) {
+      warnings.push("GITHUB_WEBHOOK_SECRET is set but GITHUB_TOKEN (or a GitHub App) is missing - GitHub provider will not work");
+    }
+    return warnings;
+  },
+};
+
+/**
+ * Check whether a token or a complete GitHub App is configured
+ */
+function hasCredentials(settings: GitHubSettings): boolean {
+  return !!settings.token || (!!settings.appId && !!(settings.privateKey || settings.privateKeyPath));
+}
@@ -2,21 +2,32 @@ import { Hono } from "hono";
 import { createHmac, timingSafeEqual } from "crypto";
 import { config } from "../../config";
 import { logger } from "../../logger";
-import type { AgentTask } from "../../types";
+import type { AgentTask, ReviewFollowUp } from "../../types";
 import { GitHubIssueClient } from "./client";
+import type { GitHubSettings } from "./index";
+import {
+  DEFAULT_INSTANCE,
+  getProviderSettings,
+  getTypedClient,
+  isProviderConfigured,
+} from "../registry";
 import * as queue from "../../services/queue";
+import { cancelTask } from "../../services/cancel";
+import { notifyRepoRejected, resolveRepository } from "../../services/repo-registry";
+import { findRunForPullRequest } from "../../services/history";
+import { enqueueReviewFollowUp } from "../../services/review";
+import { containsMention, enqueueMentionFollowUp } from "../../services/mention";
 import { resolve } from "path";
 
 const githubWebhook = new Hono();
 
-// Lazy-loaded client instance
-let client: GitHubIssueClient | null = null;
+// Client and settings come from the provider registry
+function getClient(instance: string): GitHubIssueClient {
+  return getTypedClient("github", instance, GitHubIssueClient);
+}
 
-function getClient(): GitHubIssueClient {
-  if (!client) {
-    client = new GitHubIssueClient();
-  }
-  return client;
+function getSettings(instance: string): GitHubSettings {
+  return getProviderSettings<GitHubSettings>("github", instance);
 }
 
 /**
@@ -44,7 +55,19 @@ interface GitHubIssue {
   labels: GitHubLabel[];
 }
 
-interface GitHubIssuesEvent {
+/**
+ * Fields shared by every event the webhook receives
+ */
+interface GitHubEventBase {
+  action?: string;
+  repository?: GitHubRepository;
+  // Present when the webhook belongs to a GitHub App
+  installation?: {
+    id: number;
+  };
+}
+
+interface GitHubIssuesEvent extends GitHubEventBase {
   action: "labeled" | "unlabeled" | "opened" | "closed" | "edited" | string;
   issue: GitHubIssue;
   repository: GitHubRepository;
@@ -54,6 +77,81 @@ interface GitHubIssuesEvent {
   };
 }
 
+interface GitHubUser {
+  login: string;
+}
+
+interface GitHubPullRequest {
+  number: number;
+  html_url: string;
+  head: { ref: string };
+  base: { ref: string };
+}
+
+/**
+ * Payload of pull_request_review and pull_request_review_comment events
+ */
+interface GitHubReviewEvent extends GitHubEventBase {
+  action: "submitted" | "created" | "edited" | "dismissed" | "deleted" | string;
+  pull_request: GitHubPullRequest;
+  repository: GitHubRepository;
+  // pull_request_review
+  review?: {
+    id: number;
+    body: string | null;
+    state: "approved" | "changes_requested" | "commented" | string;
+    user: GitHubUser;
+  };
+  // pull_request_review_comment
+  comment?: {
+    id: number;
+    body: string;
+    path?: string;
+    line?: number | null;
+    user: GitHubUser;
+  };
+}
+
+/**
+ * Payload of issue_comment events (issues and pull requests alike)
+ */
+interface GitHubIssueCommentEvent extends GitHubEventBase {
+  action: "created" | "edited" | "deleted" | string;
+  issue: GitHubIssue & { pull_request?: { html_url: string } };
+  comment: {
+    id: number;
+    body: string;
+    user: GitHubUser;
+  };
+  repository: GitHubRepository;
+}
+
+/**
+ * Webhook payload, keyed by the X-GitHub-Event header
+ */
+type GitHubWebhookEvent =
+  | { name: "issues"; payload: GitHubIssuesEvent }
+  | { name: "pull_request_review" | "pull_request_review_comment"; payload: GitHubReviewEvent }
+  | { name: "issue_comment"; payload: GitHubIssueCommentEvent }
+  | { name: "other"; payload: GitHubEventBase };
+
+/**
+ * Parse a webhook body into the payload type of its event
+ */
+function parseEvent(name: string | undefined, rawBody: string): GitHubWebhookEvent {
+  switch (name) {
+    case "issues":
+      return { name, payload: JSON.parse(rawBody) as GitHubIssuesEvent };
+    case "pull_request_review":
+    case "pull_request_review_comment":
+      return { name, payload: JSON.parse(rawBody) as GitHubReviewEvent };
+    case "issue_comment":
+      return { name, payload: JSON.parse(rawBody) as GitHubIssueCommentEvent };
+    default:
+      return { name: "other", payload: JSON.parse(rawBody) as GitHubEventBase };
+  }
+}
+
 /**
  * Validate the GitHub webhook signature
  * GitHub uses HMAC-SHA256 with the signature prefixed with "sha256="
@@ -88,20 +186,22 @@ function validateSignature(
   }
 }
 
+/**
+ * Check if a webhook payload removes the trigger label from an issue
+ */
+function isTriggerRemoved(payload: GitHubIssuesEvent, instance: string): boolean {
+  return (
+    payload.action === "unlabeled" &&
+    !!payload.label &&
+    payload.label.name.toLowerCase() === getSettings(instance).triggerLabel.toLowerCase()
+  );
+}
+
 /**
  * Check if a webhook payload should be processed
  * Only process issues.labeled events for the trigger label
  */
-function shouldProcess(
-  event: string | undefined,
-  payload: GitHubIssuesEvent
-): boolean {
-  // Only process issues events
-  if (event !== "issues") {
-    logger.debug("Ignoring non-issues event", { event });
-    return false;
-  }
-
+function shouldProcess(payload: GitHubIssuesEvent, instance: string): boolean {
   // Only process labeled action
   if (payload.action !== "labeled") {
     logger.debug("Ignoring non-labeled action", { action: payload.action });
@@ -114,18 +214,18 @@ function shouldProcess(
     return false;
   }
 
-  const triggerLabel = config.githubTriggerLabel.toLowerCase();
+  const triggerLabel = getSettings(instance).triggerLabel.toLowerCase();
   const addedLabel = payload.label.name.toLowerCase();
 
   if (addedLabel !== triggerLabel) {
     logger.debug("Added label is not trigger label", {
       addedLabel: payload.label.name,
-      triggerLabel: config.githubTriggerLabel,
+      triggerLabel: getSettings(instance).triggerLabel,
     });
     return false;
   }
 
-  logger.info(`Trigger label "${config.githubTriggerLabel}" was added`, {
+  logger.info(`Trigger label "${getSettings(instance).triggerLabel}" was added`, {
     repo: payload.repository.full_name,
     issue: payload.issue.number,
   });
@@ -134,12 +234,171 @@ function shouldProcess(
 }
 
 /**
- * POST /webhook/github - Handle incoming GitHub webhooks
+ * Queue a follow-up run for review feedback on a PR the agent opened
+ * Ignores approvals, other PRs and the agent's own replies
  */
-githubWebhook.post("/", async (c) => {
-  // Check if GitHub is configured
-  if (!config.githubToken || !config.githubWebhookSecret) {
-    logger.warn("GitHub webhook received but GitHub is not configured");
+async function handleReviewEvent(
+  event: "pull_request_review" | "pull_request_review_comment",
+  payload: GitHubReviewEvent,
+  instance: string
+): Promise<string> {
+  const pr = payload.pull_request;
+  const run = findRunForPullRequest(pr.html_url);
+  if (!run) {
+    logger.debug("Ignoring review on a pull request the agent did not open", {
+      prUrl: pr.html_url,
+    });
+    return "ignored";
+  }
+
+  const githubClient = getClient(instance);
+  const agentLogin = await githubClient.getAuthenticatedLogin();
+  const followUp: ReviewFollowUp = {
+    repo: payload.repository.full_name,
+    prNumber: pr.number,
+    prUrl: pr.html_url,
+    baseBranch: pr.base.ref,
+    reviews: [],
+    comments: [],
+    instance,
+  };
+
+  if (event === "pull_request_review") {
+    const review = payload.review;
+    if (
+      payload.action !== "submitted" ||
+      !review ||
+      review.user.login === agentLogin ||
+      review.state === "approved"
+    ) {
+      return "ignored";
+    }
+    if (review.body?.trim()) {
+      followUp.reviews.push({
+        id: review.id,
+        author: review.user.login,
+        body: review.body,
+      });
+    }
+    followUp.comments = await githubClient.getReviewComments(
+      followUp.repo,
+      pr.number,
+      review.id
+    );
+  } else {
+    const comment = payload.comment;
+    if (payload.action !== "created" || !comment) {
+      return "ignored";
+    }
+    followUp.comments.push({
+      id: comment.id,
+      author: comment.user.login,
+      body: comment.body,
+      path: comment.path,
+      line: comment.line ?? undefined,
+    });
+  }
+
+  followUp.comments = followUp.comments.filter((c) => c.author !== agentLogin);
+  if (followUp.reviews.length === 0 && followUp.comments.length === 0) {
+    return "ignored";
+  }
+
+  logger.info("Review feedback received on agent pull request", {
+    issueId: run.identifier,
+    prUrl: pr.html_url,
+    reviews: followUp.reviews.length,
+    comments: followUp.comments.length,
+  });
+  return enqueueReviewFollowUp(run, pr.head.ref, followUp);
+}
+
+/**
+ * Queue a follow-up run for a new comment that mentions the agent
+ * Comments on a PR the agent opened count as comments on its issue
+ */
+async function handleIssueComment(
+  payload: GitHubIssueCommentEvent,
+  instance: string
+): Promise<string> {
+  const { comment } = payload;
+  if (payload.action !== "created" || !containsMention(comment.body)) {
+    return "ignored";
+  }
+
+  const githubClient = getClient(instance);
+  if (comment.user.login === (await githubClient.getAuthenticatedLogin())) {
+    return "ignored";
+  }
+
+  let task: AgentTask;
+  const pullRequest = payload.issue.pull_request;
+  if (pullRequest) {
+    const run = findRunForPullRequest(pullRequest.html_url);
+    if (!run?.branchName) {
+      logger.debug("Ignoring mention on a pull request the agent did not open", {
+        prUrl: pullRequest.html_url,
+      });
+      return "ignored";
+    }
+    task = {
+      issueId: run.issueId,
+      identifier: run.identifier,
+      repo: run.repo,
+      worktreePath: resolve(config.worktreesPath, run.branchName),
+      status: "queued",
+      title: run.title,
+      provider: run.provider,
+      instance: run.instance,
+    };
+  } else {
+    const issueId = `${payload.repository.full_name}#${payload.issue.number}`;
+    const issue = await githubClient.getIssue(issueId);
+    if (!issue) {
+      logger.error("Issue not found", { issueId });
+      return "ignored";
+    }
+
+    const resolution = resolveRepository(githubClient.getRepository(issue));
+    if (!resolution.ok) {
+      await notifyRepoRejected(githubClient, issue, resolution.reason);
+      return "rejected";
+    }
+
+    const branchName = githubClient.getBranchName(issue);
+    task = {
+      issueId: issue.id,
+      identifier: issue.identifier,
+      repo: resolution.name,
+      worktreePath: resolve(config.worktreesPath, branchName),
+      status: "queued",
+      title: issue.title,
+      provider: "github",
+      instance,
+    };
+  }
+
+  logger.info("Agent mentioned in comment", {
+    issueId: task.identifier,
+    commentId: comment.id,
+  });
+  return enqueueMentionFollowUp({ ...task, triggeredBy: comment.user.login }, {
+    id: String(comment.id),
+    author: comment.user.login,
+    body: comment.body,
+  });
+}
+
+/**
+ * POST /webhook/github[/:instance] - Handle incoming GitHub webhooks
+ * Without an instance, the default instance handles the webhook
+ */
+githubWebhook.post("/:instance?", async (c) => {
+  const instance = c.req.param("instance") ?? DEFAULT_INSTANCE;
+
+  // Check if this GitHub instance is configured
+  if (!isProviderConfigured("github", instance)) {
+    logger.warn("GitHub webhook received but GitHub is not configured", { instance });
     return c.json({ error: "GitHub not configured" }, 503);
   }
 
@@ -148,7 +407,7 @@ githubWebhook.post("/", async (c) => {
 
   // Validate signature
   const signature = c.req.header("X-Hub-Signature-256") ?? null;
-  if (!validateSignature(rawBody, signature, config.githubWebhookSecret)) {
+  if (!validateSignature(rawBody, signature, getSettings(instance).webhookSecret)) {
     logger.warn("Invalid GitHub webhook signature received", {
       ip: c.req.header("x-forwarded-for") || "unknown",
     });
@@ -156,26 +415,64 @@ githubWebhook.post("/", async (c) => {
   }
 
   // Get event type
-  const event = c.req.header("X-GitHub-Event");
+  const eventName = c.req.header("X-GitHub-Event");
 
   // Parse payload
-  let payload: GitHubIssuesEvent;
+  let event: GitHubWebhookEvent;
   try {
-    payload = JSON.parse(rawBody) as GitHubIssuesEvent;
+    event = parseEvent(eventName, rawBody);
   } catch (e) {
     logger.error("Failed to parse webhook payload", { error: String(e) });
     return c.json({ error: "Invalid JSON" }, 400);
   }
 
   logger.debug("Received GitHub webhook", {
-    event,
-    action: payload.action,
-    repo: payload.repository?.full_name,
-    issue: payload.issue?.number,
+    event: eventName,
+    action: event.payload.action,
+    repo: event.payload.repository?.full_name,
+    issue:
+      event.name === "issues" || event.name === "issue_comment"
+        ? event.payload.issue.number
+        : undefined,
   });
 
+  // Remember the app installation, saving a lookup when fetching tokens
+  const { installation, repository } = event.payload;
+  if (installation && repository) {
+    getClient(instance).rememberInstallation(repository.owner.login, installation.id);
+  }
+
+  // Review feedback on the agent's PR starts a follow-up run
+  if (event.name === "pull_request_review" || event.name === "pull_request_review_comment") {
+    const status = await handleReviewEvent(event.name, event.payload, instance);
+    return c.json({ status }, 200);
+  }
+
+  // A comment mentioning the agent starts a follow-up run
+  if (event.name === "issue_comment") {
+    const status = await handleIssueComment(event.payload, instance);
+    return c.json({ status }, 200);
+  }
+
+  // Only issues events remain to be handled
+  if (event.name !== "issues") {
+    logger.debug("Ignoring non-issues event", { event: eventName });
+    return c.json({ status: "ignored" }, 200);
+  }
+  const { payload } = event;
+
+  // Removing the trigger label cancels a queued or running agent
+  if (isTriggerRemoved(payload, instance)) {
+    const issueId = `${payload.repository.full_name}#${payload.issue.number}`;
+    const outcome = await cancelTask(
+      issueId,
+      `trigger label "${getSettings(instance).triggerLabel}" was removed`
+    );
+    return c.json({ status: outcome === "not_found" ? "ignored" : "cancelled" }, 200);
+  }
+
   // Check if we should process this webhook
-  if (!shouldProcess(event, payload)) {
+  if (!shouldProcess(payload, instance)) {
     return c.json({ status: "ignored" }, 200);
   }
 
@@ -189,19 +486,20 @@ githubWebhook.post("/", async (c) => {
   }
 
   // Fetch full issue details
-  const githubClient = getClient();
+  const githubClient = getClient(instance);
   const issue = await githubClient.getIssue(issueId);
   if (!issue) {
     logger.error("Issue not found", { issueId });
     return c.json({ error: "Issue not found" }, 400);
   }
 
-  // Get repository (already available from the identifier)
-  const repo = githubClient.getRepository(issue);
-  if (!repo) {
-    logger.error("Repository not available for issue", { issueId });
-    return c.json({ error: "Repository not specified" }, 400);
+  // Get repository (already available from the identifier) and check it is allowed
+  const resolution = resolveRepository(githubClient.getRepository(issue));
+  if (!resolution.ok) {
+    await notifyRepoRejected(githubClient, issue, resolution.reason);
+    return c.json({ error: resolution.reason }, 400);
   }
+  const repo = resolution.name;
 
   // Create task and add to queue
   const branchName = githubClient.getBranchName(issue);
@@ -214,6 +512,8 @@ githubWebhook.post("/", async (c) => {
     status: "queued",
     title: issue.title,
     provider: "github",
+    instance,
+    triggeredBy: payload.sender.login,
   };
 
   queue.addTask(task);
@@ -221,6 +521,7 @@ githubWebhook.post("/", async (c) => {
     issueId: issue.identifier,
     repo,
     provider: "github",
+    instance,
   });
 
   return c.json({ status: "enqueued", issueId: issue.identifier }, 200);
@@ -0,0 +1,156 @@
+import { config } from "../../config";
+import { logger } from "../../logger";
+
+/**
+ * GitLab API response types
+ */
+export interface GitLabMergeRequest {
+  iid: number;
+  web_url: string;
+  title: string;
+  state: "opened" | "closed" | "locked" | "merged";
+  draft: boolean;
+  source_branch: string;
+  target_branch: string;
+}
+
+interface GitLabUser {
+  id: number;
+  username: string;
+}
+
+/**
+ * Typed client for the GitLab REST API (v4)
+ *
+ * Works with gitlab.com and self-hosted instances; the instance is set by
+ * GITLAB_URL. Projects are passed by path ("group/subgroup/repo").
+ */
+export class GitLabApiClient {
+  private baseUrl: string;
+  private token: string;
+
+  constructor(url = config.gitlabUrl, token = config.gitlabToken) {
+    if (!token) {
+      throw new Error("GITLAB_TOKEN is required for the GitLab API");
+    }
+    this.baseUrl = `${url.replace(/\/+$/, "")}/api/v4`;
+    this.token = token;
+  }
+
+  /**
+   * Make an authenticated request to the GitLab API
+   */
+  async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const url = `${this.baseUrl}${path}`;
+    logger.debug(`GitLab API: ${method} ${path}`);
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        "PRIVATE-TOKEN": this.token,
+        "Content-Type": "application/json",
+        "User-Agent": "issue-agent",
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `GitLab API error: ${response.status} ${response.statusText} - ${errorText}`
+      );
+    }
+
+    // Handle 204 No Content responses
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  /**
+   * Get the API path of a project, which GitLab takes URL-encoded
+   */
+  projectPath(project: string): string {
+    return `/projects/${encodeURIComponent(project)}`;
+  }
+
+  /**
+   * Find the open merge request for a source branch, if any
+   */
+  async findOpenMergeRequest(
+    project: string,
+    branch: string
+  ): Promise<GitLabMergeRequest | null> {
+    const mrs = await this.request<GitLabMergeRequest[]>(
+      "GET",
+      `${this.projectPath(project)}/merge_requests?state=opened&source_branch=${encodeURIComponent(branch)}`
+    );
+    return mrs[0] ?? null;
+  }
+
+  /**
+   * Get a merge request by its project-level ID
+   */
+  async getMergeRequest(project: string, iid: number): Promise<GitLabMergeRequest> {
+    return this.request<GitLabMergeRequest>(
+      "GET",
+      `${this.projectPath(project)}/merge_requests/${iid}`
+    );
+  }
+
+  /**
+   * Open a merge request
+   */
+  async createMergeRequest(
+    project: string,
+    fields: {
+      source_branch: string;
+      target_branch: string;
+      title: string;
+      description: string;
+    }
+  ): Promise<GitLabMergeRequest> {
+    return this.request<GitLabMergeRequest>(
+      "POST",
+      `${this.projectPath(project)}/merge_requests`,
+      fields
+    );
+  }
+
+  /**
+   * Update a merge request
+   * @param fields - Any fields accepted by the GitLab API, e.g. add_labels
+   */
+  async updateMergeRequest(
+    project: string,
+    iid: number,
+    fields: Record<string, unknown>
+  ): Promise<GitLabMergeRequest> {
+    return this.request<GitLabMergeRequest>(
+      "PUT",
+      `${this.projectPath(project)}/merge_requests/${iid}`,
+      fields
+    );
+  }
+
+  /**
+   * Look up user IDs by username
+   * @throws Error if a username doesn't exist
+   */
+  async getUserIds(usernames: string[]): Promise<number[]> {
+    const ids: number[] = [];
+    for (const username of usernames) {
+      const users = await this.request<GitLabUser[]>(
+        "GET",
+        `/users?username=${encodeURIComponent(username)}`
+      );
+      if (users.length === 0) {
+        throw new Error(`GitLab user not found: ${username}`);
+      }
+      ids.push(users[0].id);
+    }
+    return ids;
+  }
+}
@@ -0,0 +1,186 @@
+import { config } from "../../config";
+import { logger } from "../../logger";
+import type { Issue, IssueComment, IssueLabel } from "../../types";
+import type { IssueClient } from "../types";
+import { GitLabApiClient } from "./api";
+import type { GitLabSettings } from "./index";
+
+/**
+ * GitLab API response types
+ */
+interface GitLabUser {
+  id: number;
+  username: string;
+}
+
+interface GitLabNote {
+  id: number;
+  body: string;
+  created_at: string;
+  system: boolean;
+  author: GitLabUser;
+}
+
+interface GitLabIssue {
+  id: number;
+  iid: number;
+  title: string;
+  description: string | null;
+  labels: string[];
+  author: GitLabUser;
+  state: "opened" | "closed";
+  web_url: string;
+}
+
+/**
+ * GitLab issue client implementing the IssueClient interface
+ *
+ * Uses the GitLab REST API to manage issues. Status updates are done
+ * via labels, and comments are issue notes.
+ *
+ * Issue identifiers are in the format "group/project#123", where 123 is the
+ * issue's project-level IID
+ */
+export class GitLabIssueClient implements IssueClient {
+  readonly provider = "gitlab" as const;
+  private api: GitLabApiClient;
+
+  constructor(private settings: GitLabSettings) {
+    this.api = new GitLabApiClient(settings.url, settings.token);
+  }
+
+  /**
+   * Parse a GitLab issue identifier (group/project#123) into its components
+   * The project path may include subgroups
+   */
+  private parseIdentifier(issueId: string): { project: string; iid: number } {
+    const match = issueId.match(/^(.+\/[^#]+)#(\d+)$/);
+    if (!match) {
+      throw new Error(
+        `Invalid GitLab issue identifier: ${issueId}. Expected format: group/project#123`
+      );
+    }
+    return { project: match[1], iid: parseInt(match[2], 10) };
+  }
+
+  /**
+   * Get the API path of an issue
+   */
+  private issuePath(issueId: string): string {
+    const { project, iid } = this.parseIdentifier(issueId);
+    return `${this.api.projectPath(project)}/issues/${iid}`;
+  }
+
+  /**
+   * Fetch an issue from GitLab and convert to generic Issue format
+   */
+  async getIssue(issueId: string): Promise<Issue | null> {
+    try {
+      const { project, iid } = this.parseIdentifier(issueId);
+      logger.debug(`Fetching GitLab issue ${project}#${iid}`);
+
+      const glIssue = await this.api.request<GitLabIssue>(
+        "GET",
+        this.issuePath(issueId)
+      );
+
+      // Fetch comments if configured, skipping system notes (label changes etc.)
+      let comments: IssueComment[] = [];
+      if (config.includeComments) {
+        const notes = await this.api.request<GitLabNote[]>(
+          "GET",
+          `${this.issuePath(issueId)}/notes?sort=asc&per_page=100`
+        );
+        comments = notes
+          .filter((note) => !note.system)
+          .map((note) => ({
+            id: String(note.id),
+            body: note.body,
+            createdAt: note.created_at,
+            user: { name: note.author.username },
+          }));
+      }
+
+      // GitLab labels are plain names
+      const labels: IssueLabel[] = glIssue.labels.map((label) => ({
+        id: label,
+        name: label,
+      }));
+
+      const issue: Issue = {
+        id: issueId, // Use the full identifier as ID
+        identifier: issueId,
+        title: glIssue.title,
+        description: glIssue.description ?? undefined,
+        labels,
+        comments,
+        repository: project,
+        url: glIssue.web_url,
+        metadata: {
+          iid: glIssue.iid,
+          state: glIssue.state,
+          author: glIssue.author.username,
+          project,
+          webUrl: glIssue.web_url,
+        },
+      };
+
+      logger.debug(`Fetched GitLab issue ${issueId}: ${issue.title}`);
+      return issue;
+    } catch (e) {
+      if (e instanceof Error && e.message.includes("404")) {
+        logger.warn(`GitLab issue ${issueId} not found`);
+        return null;
+      }
+      logger.error(`Failed to fetch GitLab issue ${issueId}`, {
+        error: String(e),
+      });
+      throw e;
+    }
+  }
+
+  /**
+   * Update the status of an issue by adding/removing labels
+   */
+  async updateStatus(
+    issueId: string,
+    status: "in_progress" | "review"
+  ): Promise<void> {
+    const inProgressLabel = this.settings.inProgressLabel;
+    const reviewLabel = this.settings.reviewLabel;
+
+    // GitLab can add and remove labels in one update
+    await this.api.request("PUT", this.issuePath(issueId), {
+      add_labels: status === "in_progress" ? inProgressLabel : reviewLabel,
+      remove_labels: status === "in_progress" ? reviewLabel : inProgressLabel,
+    });
+
+    logger.info(`Updated GitLab issue ${issueId} status to "${status}"`);
+  }
+
+  /**
+   * Add a comment (note) to an issue
+   */
+  async addComment(issueId: string, body: string): Promise<void> {
+    await this.api.request("POST", `${this.issuePath(issueId)}/notes`, { body });
+
+    logger.info(`Added comment to GitLab issue ${issueId}`);
+  }
+
+  /**
+   * Get repository from issue
+   * For GitLab, this is the issue's project path
+   */
+  getRepository(issue: Issue): string | null {
+    return issue.repository ?? null;
+  }
+
+  /**
+   * Branch name for GitLab: group-project-123
+   * This avoids conflicts between different projects
+   */
+  getBranchName(issue: Issue): string {
+    const metadata = issue.metadata as { project: string; iid: number };
+    return `${metadata.project.replace(/\//g, "-")}-${metadata.iid}`;
+  }
+}
@@ -0,0 +1,173 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { GitLabApiClient } from "./api";
+import { GitLabCodeHost, parseGitLabRemote } from "./host";
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  token: string | null;
+  body: Record<string, unknown> | null;
+}
+
+// Local stand-in for the GitLab REST API: records requests and answers
+// from per-route handlers
+const requests: RecordedRequest[] = [];
+let routes: Record<string, (body: Record<string, unknown> | null) => unknown> = {};
+
+const server = Bun.serve({
+  port: 0,
+  async fetch(req) {
+    const url = new URL(req.url);
+    const path = url.pathname + url.search;
+    const text = await req.text();
+    const body = text ? (JSON.parse(text) as Record<string, unknown>) : null;
+    requests.push({
+      method: req.method,
+      path,
+      token: req.headers.get("PRIVATE-TOKEN"),
+      body,
+    });
+
+    const handler = routes[`${req.method} ${path}`];
+    if (!handler) {
+      return new Response("not found", { status: 404, statusText: "Not Found" });
+    }
+    return Response.json(handler(body));
+  },
+});
+
+const gitlabUrl = `http://localhost:${server.port}`;
+const host = new GitLabCodeHost(new GitLabApiClient(gitlabUrl, "test-token"), gitlabUrl);
+
+const PROJECT = "group/sub/repo";
+const MR_PATH = "/api/v4/projects/group%2Fsub%2Frepo/merge_requests";
+
+function mergeRequest(fields: Record<string, unknown> = {}) {
+  return {
+    iid: 7,
+    web_url: `${gitlabUrl}/${PROJECT}/-/merge_requests/7`,
+    title: "ENG-1: Fix it",
+    state: "opened",
+    draft: false,
+    source_branch: "eng-1",
+    target_branch: "main",
+    ...fields,
+  };
+}
+
+beforeEach(() => {
+  requests.length = 0;
+  routes = {};
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+describe("GitLabCodeHost", () => {
+  test("opens draft merge requests with the Draft: prefix", async () => {
+    routes[`POST ${MR_PATH}`] = (body) => mergeRequest({ title: body?.title, draft: true });
+
+    const pr = await host.createPullRequest(PROJECT, {
+      title: "ENG-1: Fix it",
+      body: "Summary",
+      head: "eng-1",
+      base: "main",
+      draft: true,
+    });
+
+    expect(pr).toEqual({
+      number: 7,
+      url: `${gitlabUrl}/${PROJECT}/-/merge_requests/7`,
+      draft: true,
+      open: true,
+    });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].token).toBe("test-token");
+    expect(requests[0].body).toEqual({
+      source_branch: "eng-1",
+      target_branch: "main",
+      title: "Draft: ENG-1: Fix it",
+      description: "Summary",
+    });
+  });
+
+  test("finds the open merge request of a source branch", async () => {
+    routes[`GET ${MR_PATH}?state=opened&source_branch=eng-1`] = () => [mergeRequest()];
+
+    const pr = await host.findOpenPullRequest(PROJECT, "eng-1");
+
+    expect(pr?.number).toBe(7);
+  });
+
+  test("returns null when the branch has no open merge request", async () => {
+    routes[`GET ${MR_PATH}?state=opened&source_branch=eng-2`] = () => [];
+
+    expect(await host.findOpenPullRequest(PROJECT, "eng-2")).toBeNull();
+  });
+
+  test("keeps the draft prefix when updating a draft", async () => {
+    routes[`GET ${MR_PATH}/7`] = () => mergeRequest({ draft: true });
+    routes[`PUT ${MR_PATH}/7`] = (body) => mergeRequest({ title: body?.title, draft: true });
+
+    await host.updatePullRequest(PROJECT, 7, { title: "New title", body: "New body" });
+
+    expect(requests[1].body).toEqual({
+      title: "Draft: New title",
+      description: "New body",
+    });
+  });
+
+  test("requests reviews by user ID and skips groups", async () => {
+    routes["GET /api/v4/users?username=alice"] = () => [{ id: 11, username: "alice" }];
+    routes[`PUT ${MR_PATH}/7`] = () => mergeRequest();
+
+    await host.requestReviewers(PROJECT, 7, ["alice", "org/team"]);
+
+    expect(requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      "GET /api/v4/users?username=alice",
+      `PUT ${MR_PATH}/7`,
+    ]);
+    expect(requests[1].body).toEqual({ reviewer_ids: [11] });
+  });
+
+  test("reports merged merge requests as not open", async () => {
+    routes[`GET ${MR_PATH}/7`] = () => mergeRequest({ state: "merged" });
+
+    const pr = await host.getPullRequest(PROJECT, 7);
+
+    expect(pr.open).toBe(false);
+  });
+
+  test("surfaces API errors with their status", async () => {
+    await expect(host.getPullRequest(PROJECT, 99)).rejects.toThrow(
+      "GitLab API error: 404 Not Found"
+    );
+  });
+
+  test("parses merge request URLs on its instance only", () => {
+    expect(host.parsePullRequestUrl(`${gitlabUrl}/${PROJECT}/-/merge_requests/7`)).toEqual({
+      project: PROJECT,
+      number: 7,
+    });
+    expect(host.parsePullRequestUrl("https://github.com/acme/web/pull/7")).toBeNull();
+  });
+});
+
+describe("parseGitLabRemote", () => {
+  test("reads the project path from HTTPS and SSH remotes", () => {
+    expect(
+      parseGitLabRemote("https://gitlab.example.com/group/repo.git", "https://gitlab.example.com")
+    ).toBe("group/repo");
+    expect(
+      parseGitLabRemote("git@gitlab.example.com:group/sub/repo.git", "https://gitlab.example.com")
+    ).toBe("group/sub/repo");
+  });
+
+  test("ignores remotes on other hosts and malformed instance URLs", () => {
+    expect(
+      parseGitLabRemote("git@github.com:acme/web.git", "https://gitlab.example.com")
+    ).toBeNull();
+    expect(parseGitLabRemote("git@gitlab.example.com:group/repo.git", "gitlab.example.com")).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+import { config } from "../../config";
+import { logger } from "../../logger";
+import type { CodeHostClient, CreatePullRequestInput, HostedPullRequest } from "../types";
+import { GitLabApiClient, type GitLabMergeRequest } from "./api";
+
+// GitLab marks merge requests as drafts by this title prefix
+const DRAFT_PREFIX = "Draft: ";
+
+/**
+ * Convert a GitLab merge request to the common format
+ */
+function toHosted(mr: GitLabMergeRequest): HostedPullRequest {
+  return {
+    number: mr.iid,
+    url: mr.web_url,
+    draft: mr.draft,
+    open: mr.state === "opened",
+  };
+}
+
+/**
+ * Get the project path from a remote URL on a GitLab instance
+ * (HTTPS, SSH or scp-style)
+ * Returns null if the instance URL can't be parsed
+ * @param gitlabUrl - Instance URL, defaults to GITLAB_URL
+ */
+export function parseGitLabRemote(url: string, gitlabUrl = config.gitlabUrl): string | null {
+  // Malformed instance URLs are rejected at startup; don't throw mid-run
+  let hostname: string;
+  try {
+    hostname = new URL(gitlabUrl).hostname.replace(/[.]/g, "\\.");
+  } catch {
+    return null;
+  }
+  const match = url.match(
+    new RegExp(`^(?:[a-z+]+://)?(?:[^@/]+@)?${hostname}(?::\\d+)?[:/](.+?)(?:\\.git)?/?$`)
+  );
+  return match ? match[1] : null;
+}
+
+/**
+ * GitLab code host: opens merge requests through the REST API
+ * Projects are full paths ("group/subgroup/repo") on the instance at `url`
+ */
+export class GitLabCodeHost implements CodeHostClient {
+  readonly host = "gitlab" as const;
+
+  constructor(
+    private api = new GitLabApiClient(),
+    private url = config.gitlabUrl
+  ) {}
+
+  parseRemote(url: string): string | null {
+    return parseGitLabRemote(url, this.url);
+  }
+
+  parsePullRequestUrl(url: string): { project: string; number: number } | null {
+    // Merge request URLs look like <url>/group/repo/-/merge_requests/12
+    const base = this.url.replace(/\/+$/, "");
+    if (!url.startsWith(`${base}/`)) {
+      return null;
+    }
+    const match = url
+      .slice(base.length + 1)
+      .match(/^(.+?)\/-\/merge_requests\/(\d+)/);
+    return match ? { project: match[1], number: Number(match[2]) } : null;
+  }
+
+  async getPullRequest(project: string, number: number): Promise<HostedPullRequest> {
+    return toHosted(await this.api.getMergeRequest(project, number));
+  }
+
+  async findOpenPullRequest(
+    project: string,
+    branch: string
+  ): Promise<HostedPullRequest | null> {
+    const mr = await this.api.findOpenMergeRequest(project, branch);
+    return mr ? toHosted(mr) : null;
+  }
+
+  async createPullRequest(
+    project: string,
+    input: CreatePullRequestInput
+  ): Promise<HostedPullRequest> {
+    const mr = await this.api.createMergeRequest(project, {
+      source_branch: input.head,
+      target_branch: input.base,
+      title: input.draft ? `${DRAFT_PREFIX}${input.title}` : input.title,
+      description: input.body,
+    });
+    return toHosted(mr);
+  }
+
+  async updatePullRequest(
+    project: string,
+    number: number,
+    changes: { title: string; body: string }
+  ): Promise<HostedPullRequest> {
+    // A new title would drop the draft prefix, so keep it on drafts
+    const existing = await this.api.getMergeRequest(project, number);
+    const mr = await this.api.updateMergeRequest(project, number, {
+      title: existing.draft ? `${DRAFT_PREFIX}${changes.title}` : changes.title,
+      description: changes.body,
+    });
+    return toHosted(mr);
+  }
+
+  async requestReviewers(project: string, number: number, reviewers: string[]): Promise<void> {
+    // GitLab can't request reviews from groups
+    const users = reviewers.filter((r) => !r.includes("/"));
+    if (users.length < reviewers.length) {
+      logger.warn("Skipping group reviewers, which GitLab doesn't support", {
+        groups: reviewers.filter((r) => r.includes("/")),
+      });
+    }
+    if (users.length === 0) {
+      return;
+    }
+    const ids = await this.api.getUserIds(users);
+    await this.api.updateMergeRequest(project, number, { reviewer_ids: ids });
+  }
+
+  async addLabels(project: string, number: number, labels: string[]): Promise<void> {
+    await this.api.updateMergeRequest(project, number, {
+      add_labels: labels.join(","),
+    });
+  }
+
+  async addAssignees(project: string, number: number, assignees: string[]): Promise<void> {
+    const ids = await this.api.getUserIds(assignees);
+    await this.api.updateMergeRequest(project, number, { assignee_ids: ids });
+  }
+}
@@ -0,0 +1,87 @@
+import type { ProviderDefinition } from "../registry";
+import { GitLabIssueClient } from "./client";
+import { gitlabWebhook } from "./webhook";
+
+/**
+ * Settings of the GitLab Issues provider
+ */
+export interface GitLabSettings {
+  url: string;
+  token: string;
+  webhookSecret: string;
+  triggerLabel: string;
+  inProgressLabel: string;
+  reviewLabel: string;
+}
+
+/**
+ * Check that a value is an absolute http(s) URL
+ */
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * GitLab Issues provider, mounted at /webhook/gitlab
+ */
+export const gitlabProvider: ProviderDefinition<GitLabSettings> = {
+  name: "gitlab",
+  displayName: "GitLab",
+  configSchema: [
+    {
+      key: "url",
+      env: "GITLAB_URL",
+      jsonKey: "gitlabUrl",
+      default: "https://gitlab.com",
+      description: "GitLab instance URL",
+      check: (value) => (isHttpUrl(value) ? null : "must be an http(s) URL"),
+    },
+    {
+      key: "token",
+      env: "GITLAB_TOKEN",
+      jsonKey: "gitlabToken",
+      required: true,
+      description: "GitLab token with the api scope",
+    },
+    {
+      key: "webhookSecret",
+      env: "GITLAB_WEBHOOK_SECRET",
+      jsonKey: "gitlabWebhookSecret",
+      required: true,
+      description: "Secret token sent by GitLab webhooks",
+    },
+    {
+      key: "triggerLabel",
+      env: "GITLAB_TRIGGER_LABEL",
+      jsonKey: "gitlabTriggerLabel",
+      default: "ai-attempt",
+      description: "Label that triggers the agent",
+    },
+    {
+      key: "inProgressLabel",
+      env: "GITLAB_IN_PROGRESS_LABEL",
+      jsonKey: "gitlabInProgressLabel",
+      default: "in-progress",
+      description: "Label added when the agent starts",
+    },
+    {
+      key: "reviewLabel",
+      env: "GITLAB_REVIEW_LABEL",
+      jsonKey: "gitlabReviewLabel",
+      default: "review",
+      description: "Label added when the MR is opened",
+    },
+  ],
+  webhook: gitlabWebhook,
+  createClient: (settings) => new GitLabIssueClient(settings),
+  // GITLAB_TOKEN alone is fine: it opens merge requests without the provider
+  validate: (settings) =>
+    !settings.token && settings.webhookSecret
+      ? ["GITLAB_WEBHOOK_SECRET is set but GITLAB_TOKEN is missing - GitLab provider will not work"]
+      : [],
+};
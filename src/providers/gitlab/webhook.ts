@@ -0,0 +1,246 @@
+import { Hono } from "hono";
+import { timingSafeEqual } from "crypto";
+import { config } from "../../config";
+import { logger } from "../../logger";
+import type { AgentTask } from "../../types";
+import { GitLabIssueClient } from "./client";
+import type { GitLabSettings } from "./index";
+import {
+  DEFAULT_INSTANCE,
+  getProviderSettings,
+  getTypedClient,
+  isProviderConfigured,
+} from "../registry";
+import * as queue from "../../services/queue";
+import { cancelTask } from "../../services/cancel";
+import { notifyRepoRejected, resolveRepository } from "../../services/repo-registry";
+import { resolve } from "path";
+
+const gitlabWebhook = new Hono();
+
+// Client and settings come from the provider registry
+function getClient(instance: string): GitLabIssueClient {
+  return getTypedClient("gitlab", instance, GitLabIssueClient);
+}
+
+function getSettings(instance: string): GitLabSettings {
+  return getProviderSettings<GitLabSettings>("gitlab", instance);
+}
+
+/**
+ * GitLab webhook payload types
+ */
+interface GitLabLabel {
+  id: number;
+  title: string;
+}
+
+interface GitLabIssueEvent {
+  object_kind: "issue" | string;
+  user: {
+    username: string;
+  };
+  project: {
+    id: number;
+    path_with_namespace: string;
+    web_url?: string;
+  };
+  object_attributes: {
+    iid: number;
+    title: string;
+    action?: "open" | "update" | "close" | "reopen" | string;
+  };
+  // Present when the labels changed
+  changes?: {
+    labels?: {
+      previous: GitLabLabel[];
+      current: GitLabLabel[];
+    };
+  };
+}
+
+// Issue events, including those of confidential issues
+const ISSUE_EVENTS = ["Issue Hook", "Confidential Issue Hook"];
+
+/**
+ * Validate the GitLab webhook token
+ * GitLab sends the configured secret token as-is in X-Gitlab-Token
+ */
+function validateToken(token: string | null, secret: string): boolean {
+  if (!token) {
+    return false;
+  }
+
+  // Use timing-safe comparison to prevent timing attacks
+  const provided = Buffer.from(token);
+  const expected = Buffer.from(secret);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Check that a webhook's project lives on the instance's GitLab
+ * Issue IDs are built from the project path alone, so a project on another
+ * GitLab must not pass for one on this instance
+ */
+function isOnInstance(projectUrl: string | undefined, instance: string): boolean {
+  if (!projectUrl) {
+    return false;
+  }
+  try {
+    return new URL(projectUrl).host === new URL(getSettings(instance).url).host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Work out whether an issue event added or removed the trigger label
+ */
+function getTriggerChange(
+  payload: GitLabIssueEvent,
+  instance: string
+): "added" | "removed" | null {
+  const labels = payload.changes?.labels;
+  if (!labels) {
+    return null;
+  }
+
+  const triggerLabel = getSettings(instance).triggerLabel.toLowerCase();
+  const hasTrigger = (list: GitLabLabel[]) =>
+    list.some((label) => label.title.toLowerCase() === triggerLabel);
+
+  const before = hasTrigger(labels.previous);
+  const after = hasTrigger(labels.current);
+  if (!before && after) return "added";
+  if (before && !after) return "removed";
+  return null;
+}
+
+/**
+ * POST /webhook/gitlab[/:instance] - Handle incoming GitLab webhooks
+ * Without an instance, the default instance handles the webhook
+ */
+gitlabWebhook.post("/:instance?", async (c) => {
+  const instance = c.req.param("instance") ?? DEFAULT_INSTANCE;
+
+  // Check if this GitLab instance is configured
+  if (!isProviderConfigured("gitlab", instance)) {
+    logger.warn("GitLab webhook received but GitLab is not configured", { instance });
+    return c.json({ error: "GitLab not configured" }, 503);
+  }
+
+  // Validate secret token
+  const token = c.req.header("X-Gitlab-Token") ?? null;
+  if (!validateToken(token, getSettings(instance).webhookSecret)) {
+    logger.warn("Invalid GitLab webhook token received", {
+      ip: c.req.header("x-forwarded-for") || "unknown",
+    });
+    return c.json({ error: "Invalid token" }, 401);
+  }
+
+  // Get event type
+  const event = c.req.header("X-Gitlab-Event");
+
+  // Parse payload
+  let payload: GitLabIssueEvent;
+  try {
+    payload = await c.req.json<GitLabIssueEvent>();
+  } catch (e) {
+    logger.error("Failed to parse webhook payload", { error: String(e) });
+    return c.json({ error: "Invalid JSON" }, 400);
+  }
+
+  logger.debug("Received GitLab webhook", {
+    event,
+    action: payload.object_attributes?.action,
+    project: payload.project?.path_with_namespace,
+    issue: payload.object_attributes?.iid,
+  });
+
+  // Only process issue events
+  if (!event || !ISSUE_EVENTS.includes(event) || payload.object_kind !== "issue") {
+    logger.debug("Ignoring non-issue event", { event });
+    return c.json({ status: "ignored" }, 200);
+  }
+
+  if (!isOnInstance(payload.project?.web_url, instance)) {
+    logger.warn("Ignoring issue event for a project on another GitLab instance", {
+      instance,
+      projectUrl: payload.project?.web_url,
+    });
+    return c.json({ error: "Project is not on this GitLab instance" }, 400);
+  }
+
+  // Build issue identifier: group/project#123
+  const issueId = `${payload.project.path_with_namespace}#${payload.object_attributes.iid}`;
+  const change = getTriggerChange(payload, instance);
+
+  // Removing the trigger label cancels a queued or running agent
+  if (change === "removed") {
+    const outcome = await cancelTask(
+      issueId,
+      `trigger label "${getSettings(instance).triggerLabel}" was removed`
+    );
+    return c.json({ status: outcome === "not_found" ? "ignored" : "cancelled" }, 200);
+  }
+
+  // Only process events that add the trigger label
+  if (change !== "added") {
+    logger.debug("Trigger label was not added", { issueId });
+    return c.json({ status: "ignored" }, 200);
+  }
+
+  logger.info(`Trigger label "${getSettings(instance).triggerLabel}" was added`, {
+    project: payload.project.path_with_namespace,
+    issue: payload.object_attributes.iid,
+  });
+
+  // Check if already queued or running
+  if (queue.isQueued(issueId) || queue.isRunning(issueId)) {
+    logger.warn("Issue already queued or running", { issueId });
+    return c.json({ status: "already_processing" }, 200);
+  }
+
+  // Fetch full issue details
+  const gitlabClient = getClient(instance);
+  const issue = await gitlabClient.getIssue(issueId);
+  if (!issue) {
+    logger.error("Issue not found", { issueId });
+    return c.json({ error: "Issue not found" }, 400);
+  }
+
+  // Get repository (the issue's project) and check it is allowed
+  const resolution = resolveRepository(gitlabClient.getRepository(issue));
+  if (!resolution.ok) {
+    await notifyRepoRejected(gitlabClient, issue, resolution.reason);
+    return c.json({ error: resolution.reason }, 400);
+  }
+  const repo = resolution.name;
+
+  // Create task and add to queue
+  const branchName = gitlabClient.getBranchName(issue);
+  const worktreePath = resolve(config.worktreesPath, branchName);
+  const task: AgentTask = {
+    issueId: issue.id,
+    identifier: issue.identifier,
+    repo,
+    worktreePath,
+    status: "queued",
+    title: issue.title,
+    provider: "gitlab",
+    instance,
+    triggeredBy: payload.user.username,
+  };
+
+  queue.addTask(task);
+  logger.info("Issue enqueued for processing", {
+    issueId: issue.identifier,
+    repo,
+    provider: "gitlab",
+    instance,
+  });
+
+  return c.json({ status: "enqueued", issueId: issue.identifier }, 200);
+});
+
+export { gitlabWebhook };
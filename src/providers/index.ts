@@ -1,75 +1,154 @@
-import type { IssueProvider } from "../types";
-import type { IssueClient } from "./types";
+import type { AgentTask, CodeHostKind } from "../types";
+import type { CodeHostClient } from "./types";
 import { config } from "../config";
-import { LinearIssueClient } from "./linear/client";
-import { GitHubIssueClient } from "./github/client";
+import {
+  DEFAULT_INSTANCE,
+  getProviderSettings,
+  isProviderConfigured,
+  registerProvider,
+} from "./registry";
+import { linearProvider } from "./linear";
+import { githubProvider, type GitHubSettings } from "./github";
+import { GitHubApiClient } from "./github/api";
+import { getGitHubAuth } from "./github/app";
+import { GitHubCodeHost, parseGitHubRemote } from "./github/host";
+import { gitlabProvider, type GitLabSettings } from "./gitlab";
+import { GitLabApiClient } from "./gitlab/api";
+import { GitLabCodeHost, parseGitLabRemote } from "./gitlab/host";
+import { jiraProvider } from "./jira";
 
-// Lazy-loaded client instances
-let linearClient: IssueClient | null = null;
-let githubClient: IssueClient | null = null;
+// Built-in issue providers. A new tracker only needs a definition
+// registered here; the server mounts its webhook at /webhook/<name>.
+registerProvider(linearProvider);
+registerProvider(githubProvider);
+registerProvider(gitlabProvider);
+registerProvider(jiraProvider);
+
+// Lazy-loaded code host clients, keyed by "<host>/<instance>"
+const codeHosts = new Map<string, CodeHostClient>();
 
 /**
- * Get the appropriate issue client for a provider
- *
- * Clients are lazily instantiated on first use. This allows the application
- * to run with only one provider configured.
- *
- * @param provider - The issue provider to get a client for
- * @returns The configured client for that provider
- * @throws Error if the provider is not configured
+ * Create the client for a code host from the top-level credentials
+ * @throws Error if the code host's token is not configured
  */
-export function getClient(provider: IssueProvider): IssueClient {
-  switch (provider) {
-    case "linear":
-      if (!linearClient) {
-        if (!config.linearApiKey) {
-          throw new Error(
-            "Linear provider requested but LINEAR_API_KEY is not configured"
-          );
-        }
-        linearClient = new LinearIssueClient();
+function createDefaultCodeHost(host: CodeHostKind): CodeHostClient {
+  switch (host) {
+    case "github":
+      if (!config.githubToken && !config.githubAppId) {
+        throw new Error(
+          "GitHub code host requested but neither GITHUB_TOKEN nor GITHUB_APP_ID is configured"
+        );
       }
-      return linearClient;
+      return new GitHubCodeHost();
 
-    case "github":
-      if (!githubClient) {
-        if (!config.githubToken) {
-          throw new Error(
-            "GitHub provider requested but GITHUB_TOKEN is not configured"
-          );
-        }
-        githubClient = new GitHubIssueClient();
+    case "gitlab":
+      if (!config.gitlabToken) {
+        throw new Error("GitLab code host requested but GITLAB_TOKEN is not configured");
       }
-      return githubClient;
+      return new GitLabCodeHost();
 
     default:
-      throw new Error(`Unknown provider: ${provider}`);
+      throw new Error(`Unknown code host: ${host}`);
   }
 }
 
 /**
- * Check if a provider is configured and available
+ * Create the client for a code host from the settings of a named instance
+ * of its issue provider
+ * @throws Error if the instance is not configured
  */
-export function isProviderConfigured(provider: IssueProvider): boolean {
-  switch (provider) {
-    case "linear":
-      return !!config.linearApiKey && !!config.linearWebhookSecret;
-    case "github":
-      return !!config.githubToken && !!config.githubWebhookSecret;
+function createInstanceCodeHost(host: CodeHostKind, instance: string): CodeHostClient {
+  if (!isProviderConfigured(host, instance)) {
+    throw new Error(`Code host ${host} instance "${instance}" is not configured`);
+  }
+
+  switch (host) {
+    case "github": {
+      const settings = getProviderSettings<GitHubSettings>("github", instance);
+      return new GitHubCodeHost(new GitHubApiClient(getGitHubAuth(settings)));
+    }
+
+    case "gitlab": {
+      const settings = getProviderSettings<GitLabSettings>("gitlab", instance);
+      return new GitLabCodeHost(new GitLabApiClient(settings.url, settings.token), settings.url);
+    }
+
     default:
-      return false;
+      throw new Error(`Unknown code host: ${host}`);
+  }
+}
+
+/**
+ * Get the client for a code host
+ *
+ * Like issue clients, code host clients are lazily instantiated on first
+ * use, one per instance. The default instance uses the top-level
+ * credentials; named instances use those of the GitHub or GitLab provider
+ * instance with the same name.
+ *
+ * @param host - The code host to get a client for
+ * @param instance - The instance, see getCodeHostInstance
+ * @throws Error if the code host's credentials are not configured
+ */
+export function getCodeHost(
+  host: CodeHostKind,
+  instance: string = DEFAULT_INSTANCE
+): CodeHostClient {
+  const cacheKey = `${host}/${instance}`;
+  let client = codeHosts.get(cacheKey);
+  if (!client) {
+    client =
+      instance === DEFAULT_INSTANCE
+        ? createDefaultCodeHost(host)
+        : createInstanceCodeHost(host, instance);
+    codeHosts.set(cacheKey, client);
   }
+  return client;
 }
 
 /**
- * Get list of all configured providers
+ * Get the code host instance a task's pull requests go through
+ * Tasks from a GitHub or GitLab instance use that instance's credentials on
+ * the same host; everything else uses the default instance.
  */
-export function getConfiguredProviders(): IssueProvider[] {
-  const providers: IssueProvider[] = [];
-  if (isProviderConfigured("linear")) providers.push("linear");
-  if (isProviderConfigured("github")) providers.push("github");
-  return providers;
+export function getCodeHostInstance(
+  host: CodeHostKind,
+  task: Pick<AgentTask, "provider" | "instance">
+): string {
+  return task.provider === host ? task.instance ?? DEFAULT_INSTANCE : DEFAULT_INSTANCE;
 }
 
+/**
+ * Work out which code host a git remote URL belongs to
+ * GitLab remotes are recognized by the host name of the GitLab instance's
+ * URL (GITLAB_URL for the default instance)
+ */
+export function detectCodeHost(
+  remoteUrl: string,
+  gitlabInstance: string = DEFAULT_INSTANCE
+): CodeHostKind | null {
+  const gitlabUrl =
+    gitlabInstance === DEFAULT_INSTANCE
+      ? config.gitlabUrl
+      : getProviderSettings<GitLabSettings>("gitlab", gitlabInstance).url;
+  if (parseGitHubRemote(remoteUrl)) return "github";
+  if (parseGitLabRemote(remoteUrl, gitlabUrl)) return "gitlab";
+  return null;
+}
+
+export {
+  DEFAULT_INSTANCE,
+  getClient,
+  getConfiguredInstances,
+  getConfiguredProviders,
+  getProviderDefinitions,
+  getProviderInstances,
+  isKnownProvider,
+  isProviderConfigured,
+  registerProvider,
+  validateProviders,
+} from "./registry";
+
 // Re-export types
-export type { IssueClient } from "./types";
+export type { CodeHostClient, GitCredentials, IssueClient } from "./types";
+export type { ProviderConfigField, ProviderDefinition } from "./registry";
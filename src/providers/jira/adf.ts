@@ -0,0 +1,301 @@
+/**
+ * Conversion between Atlassian Document Format (ADF), which the Jira Cloud
+ * REST API v3 uses for descriptions and comments, and markdown
+ *
+ * Only the structure that matters for prompts and agent comments is kept:
+ * headings, paragraphs, lists, code, quotes, tables, links and emphasis.
+ * Anything else is reduced to its text.
+ */
+
+/**
+ * A node of an ADF document
+ */
+export interface AdfNode {
+  type: string;
+  /** Only set on the root "doc" node */
+  version?: number;
+  text?: string;
+  attrs?: Record<string, unknown>;
+  marks?: { type: string; attrs?: Record<string, unknown> }[];
+  content?: AdfNode[];
+}
+
+/**
+ * Apply text marks (bold, code, links, ...) as markdown
+ */
+function applyMarks(text: string, marks: AdfNode["marks"] = []): string {
+  let result = text;
+  for (const mark of marks) {
+    switch (mark.type) {
+      case "code":
+        result = `\`${result}\``;
+        break;
+      case "strong":
+        result = `**${result}**`;
+        break;
+      case "em":
+        result = `*${result}*`;
+        break;
+      case "strike":
+        result = `~~${result}~~`;
+        break;
+      case "link":
+        result = `[${result}](${mark.attrs?.href ?? ""})`;
+        break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Render inline nodes (text, mentions, emoji, ...) to markdown
+ */
+function renderInline(nodes: AdfNode[] = []): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return applyMarks(node.text ?? "", node.marks);
+        case "hardBreak":
+          return "\n";
+        case "mention":
+        case "emoji":
+        case "status":
+          return String(node.attrs?.text ?? node.attrs?.shortName ?? "");
+        case "inlineCard":
+          return String(node.attrs?.url ?? "");
+        case "date":
+          return new Date(Number(node.attrs?.timestamp)).toISOString().slice(0, 10);
+        default:
+          return renderInline(node.content);
+      }
+    })
+    .join("");
+}
+
+/**
+ * Render a bullet or ordered list, indenting continuation lines under the marker
+ */
+function renderList(node: AdfNode, ordered: boolean): string {
+  let number = Number(node.attrs?.order ?? 1);
+  return (node.content ?? [])
+    .map((item) => {
+      const marker = ordered ? `${number++}. ` : "- ";
+      const body = (item.content ?? []).map(renderBlock).join("\n");
+      return marker + body.split("\n").join(`\n${" ".repeat(marker.length)}`);
+    })
+    .join("\n");
+}
+
+/**
+ * Render a table, using its first row as the header
+ */
+function renderTable(node: AdfNode): string {
+  const rows = (node.content ?? []).map((row) =>
+    (row.content ?? []).map((cell) =>
+      (cell.content ?? []).map(renderBlock).join(" ").replace(/\n/g, " ").replace(/\|/g, "\\|")
+    )
+  );
+  if (rows.length === 0) {
+    return "";
+  }
+
+  const lines = rows.map((cells) => `| ${cells.join(" | ")} |`);
+  lines.splice(1, 0, `|${rows[0].map(() => " --- |").join("")}`);
+  return lines.join("\n");
+}
+
+/**
+ * Render a block node to markdown
+ */
+function renderBlock(node: AdfNode): string {
+  switch (node.type) {
+    case "paragraph":
+      return renderInline(node.content);
+    case "heading":
+      return `${"#".repeat(Number(node.attrs?.level ?? 1))} ${renderInline(node.content)}`;
+    case "bulletList":
+      return renderList(node, false);
+    case "orderedList":
+      return renderList(node, true);
+    case "codeBlock":
+      return `\`\`\`${node.attrs?.language ?? ""}\n${renderInline(node.content)}\n\`\`\``;
+    case "blockquote":
+    case "panel":
+      return renderBlocks(node.content)
+        .split("\n")
+        .map((line) => `> ${line}`)
+        .join("\n");
+    case "rule":
+      return "---";
+    case "table":
+      return renderTable(node);
+    case "mediaSingle":
+    case "mediaGroup":
+      return "[attachment]";
+    default:
+      return node.content ? renderBlocks(node.content) : renderInline([node]);
+  }
+}
+
+/**
+ * Render block nodes separated by blank lines
+ */
+function renderBlocks(nodes: AdfNode[] = []): string {
+  return nodes
+    .map(renderBlock)
+    .filter((block) => block.trim())
+    .join("\n\n");
+}
+
+/**
+ * Convert an ADF document to markdown
+ */
+export function adfToMarkdown(doc: AdfNode | null | undefined): string {
+  if (!doc) {
+    return "";
+  }
+  return renderBlocks(doc.content).trim();
+}
+
+// Inline markdown understood when converting to ADF: code, bold and links
+const INLINE_PATTERN = /`([^`]+)`|\*\*([^*]+)\*\*|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+/**
+ * Convert a line of markdown to ADF text nodes
+ */
+function parseInline(text: string): AdfNode[] {
+  const nodes: AdfNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      nodes.push({ type: "text", text: text.slice(last, index) });
+    }
+    if (match[1] !== undefined) {
+      nodes.push({ type: "text", text: match[1], marks: [{ type: "code" }] });
+    } else if (match[2] !== undefined) {
+      nodes.push({ type: "text", text: match[2], marks: [{ type: "strong" }] });
+    } else {
+      nodes.push({
+        type: "text",
+        text: match[3],
+        marks: [{ type: "link", attrs: { href: match[4] } }],
+      });
+    }
+    last = index + match[0].length;
+  }
+
+  if (last < text.length) {
+    nodes.push({ type: "text", text: text.slice(last) });
+  }
+  return nodes;
+}
+
+/**
+ * Build a paragraph from lines, joined by hard breaks
+ */
+function paragraph(lines: string[]): AdfNode {
+  const content: AdfNode[] = [];
+  lines.forEach((line, i) => {
+    if (i > 0) content.push({ type: "hardBreak" });
+    content.push(...parseInline(line));
+  });
+  return { type: "paragraph", content };
+}
+
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+
+/**
+ * Convert markdown to an ADF document
+ * Nested lists are flattened; unsupported syntax is kept as text
+ */
+export function markdownToAdf(markdown: string): AdfNode {
+  const lines = markdown.split("\n");
+  const content: AdfNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // Fenced code block
+    const fence = line.match(/^```\s*(\S*)/);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith("```")) {
+        code.push(lines[i++]);
+      }
+      i++; // Closing fence
+      const text = code.join("\n");
+      content.push({
+        type: "codeBlock",
+        attrs: fence[1] ? { language: fence[1] } : {},
+        content: text ? [{ type: "text", text }] : [],
+      });
+      continue;
+    }
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      content.push({
+        type: "heading",
+        attrs: { level: heading[1].length },
+        content: parseInline(heading[2]),
+      });
+      i++;
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      content.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    // Lists: consecutive items of the same kind
+    const ordered = ORDERED_PATTERN.test(line);
+    if (ordered || BULLET_PATTERN.test(line)) {
+      const pattern = ordered ? ORDERED_PATTERN : BULLET_PATTERN;
+      const items: AdfNode[] = [];
+      while (i < lines.length && pattern.test(lines[i])) {
+        const text = lines[i].match(pattern)![1];
+        items.push({ type: "listItem", content: [paragraph([text])] });
+        i++;
+      }
+      content.push({ type: ordered ? "orderedList" : "bulletList", content: items });
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].startsWith(">")) {
+        quoted.push(lines[i++].replace(/^>\s?/, ""));
+      }
+      content.push({ type: "blockquote", content: [paragraph(quoted)] });
+      continue;
+    }
+
+    // Paragraph: lines up to the next blank line or block
+    const text: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !/^(```|#{1,6}\s|>)/.test(lines[i]) &&
+      !BULLET_PATTERN.test(lines[i]) &&
+      !ORDERED_PATTERN.test(lines[i])
+    ) {
+      text.push(lines[i++]);
+    }
+    content.push(paragraph(text));
+  }
+
+  return { type: "doc", version: 1, content };
+}
@@ -0,0 +1,326 @@
+import { config } from "../../config";
+import { logger } from "../../logger";
+import type { Issue, IssueComment, IssueLabel, ParentIssue } from "../../types";
+import type { IssueClient } from "../types";
+import { adfToMarkdown, markdownToAdf, type AdfNode } from "./adf";
+import type { JiraSettings } from "./index";
+
+/**
+ * Jira API response types
+ */
+interface JiraUser {
+  accountId: string;
+  displayName: string;
+}
+
+interface JiraComment {
+  id: string;
+  body: AdfNode | null;
+  created: string;
+  author?: JiraUser;
+}
+
+interface JiraIssue {
+  id: string;
+  key: string;
+  fields: {
+    summary: string;
+    description: AdfNode | null;
+    labels: string[];
+    status?: { name: string };
+    project?: { key: string };
+    issuetype?: { name: string };
+    parent?: {
+      id: string;
+      key: string;
+      fields?: { summary: string; issuetype?: { name: string } };
+    };
+    [field: string]: unknown;
+  };
+}
+
+interface JiraTransition {
+  id: string;
+  name: string;
+  to: { name: string };
+}
+
+interface JiraField {
+  id: string;
+  name: string;
+}
+
+/**
+ * Jira Cloud issue client implementing the IssueClient interface
+ *
+ * Uses the Jira Cloud REST API (v3) with basic auth (account email and API
+ * token). Descriptions and comments are Atlassian Document Format, converted
+ * from and to markdown. Status updates run workflow transitions, and the
+ * repository comes from a custom field configured via JIRA_REPO_FIELD.
+ *
+ * Issue identifiers are issue keys (e.g. "ENG-123")
+ */
+export class JiraIssueClient implements IssueClient {
+  readonly provider = "jira" as const;
+  private siteUrl: string;
+  private baseUrl: string;
+  private authorization: string;
+  private repoFieldId: string | null | undefined;
+
+  constructor(private settings: JiraSettings) {
+    this.siteUrl = settings.baseUrl.replace(/\/+$/, "");
+    this.baseUrl = `${this.siteUrl}/rest/api/3`;
+    this.authorization = `Basic ${Buffer.from(
+      `${settings.email}:${settings.apiToken}`
+    ).toString("base64")}`;
+  }
+
+  /**
+   * Make an authenticated request to the Jira API
+   */
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const url = `${this.baseUrl}${path}`;
+    logger.debug(`Jira API: ${method} ${path}`);
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: this.authorization,
+        Accept: "application/json",
+        "Content-Type": "application/json",
+        "User-Agent": "issue-agent",
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Jira API error: ${response.status} ${response.statusText} - ${errorText}`
+      );
+    }
+
+    // Handle 204 No Content responses
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  /**
+   * Get the ID of the repository custom field (cached)
+   * JIRA_REPO_FIELD may be a field ID ("customfield_10042") or a field name
+   */
+  private async getRepoFieldId(): Promise<string | null> {
+    if (this.repoFieldId !== undefined) {
+      return this.repoFieldId;
+    }
+
+    const configured = this.settings.repoField;
+    if (/^customfield_\d+$/.test(configured)) {
+      this.repoFieldId = configured;
+      return configured;
+    }
+
+    const fields = await this.request<JiraField[]>("GET", "/field");
+    const field = fields.find(
+      (f) => f.name.toLowerCase() === configured.toLowerCase()
+    );
+    if (!field) {
+      logger.warn(`Jira field "${configured}" not found, repositories can't be read`);
+    }
+    this.repoFieldId = field?.id ?? null;
+    return this.repoFieldId;
+  }
+
+  /**
+   * Read the repository from a custom field value
+   * Handles text fields, select lists and multi-select lists (first option)
+   */
+  private readRepoField(value: unknown): string | undefined {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (typeof first === "string") {
+      return first.trim() || undefined;
+    }
+    if (first && typeof first === "object" && "value" in first) {
+      return String((first as { value: unknown }).value).trim() || undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * Fetch an issue from Jira and convert to generic Issue format
+   */
+  async getIssue(issueId: string): Promise<Issue | null> {
+    try {
+      logger.debug(`Fetching Jira issue ${issueId}`);
+
+      const repoFieldId = await this.getRepoFieldId();
+      const fields = [
+        "summary",
+        "description",
+        "labels",
+        "status",
+        "project",
+        "issuetype",
+        "parent",
+        ...(repoFieldId ? [repoFieldId] : []),
+      ].join(",");
+      const jiraIssue = await this.request<JiraIssue>(
+        "GET",
+        `/issue/${encodeURIComponent(issueId)}?fields=${fields}`
+      );
+
+      // Fetch comments if configured
+      let comments: IssueComment[] = [];
+      if (config.includeComments) {
+        const page = await this.request<{ comments: JiraComment[] }>(
+          "GET",
+          `/issue/${encodeURIComponent(issueId)}/comment?orderBy=created&maxResults=100`
+        );
+        comments = page.comments.map((comment) => ({
+          id: comment.id,
+          body: adfToMarkdown(comment.body),
+          createdAt: comment.created,
+          user: comment.author ? { name: comment.author.displayName } : undefined,
+        }));
+      }
+
+      // Jira labels are plain names
+      const labels: IssueLabel[] = jiraIssue.fields.labels.map((label) => ({
+        id: label,
+        name: label,
+      }));
+
+      // Fetch parent issue (an epic or, for sub-tasks, the parent task)
+      let parent: ParentIssue | undefined;
+      const parentRef = jiraIssue.fields.parent;
+      if (parentRef) {
+        try {
+          const parentIssue = await this.request<JiraIssue>(
+            "GET",
+            `/issue/${parentRef.key}?fields=summary,description`
+          );
+          parent = {
+            id: parentIssue.id,
+            identifier: parentIssue.key,
+            title: parentIssue.fields.summary,
+            description: adfToMarkdown(parentIssue.fields.description) || undefined,
+          };
+        } catch (e) {
+          logger.debug("Could not fetch parent issue", { error: String(e) });
+        }
+      }
+
+      const issue: Issue = {
+        id: jiraIssue.key,
+        identifier: jiraIssue.key,
+        title: jiraIssue.fields.summary,
+        description: adfToMarkdown(jiraIssue.fields.description) || undefined,
+        labels,
+        comments,
+        parent,
+        repository: repoFieldId
+          ? this.readRepoField(jiraIssue.fields[repoFieldId])
+          : undefined,
+        url: `${this.siteUrl}/browse/${jiraIssue.key}`,
+        metadata: {
+          jiraId: jiraIssue.id,
+          status: jiraIssue.fields.status?.name,
+          project: jiraIssue.fields.project?.key,
+          issueType: jiraIssue.fields.issuetype?.name,
+          parentType: parentRef?.fields?.issuetype?.name,
+        },
+      };
+
+      logger.debug(`Fetched Jira issue ${issue.identifier}: ${issue.title}`);
+      return issue;
+    } catch (e) {
+      if (e instanceof Error && e.message.includes("404")) {
+        logger.warn(`Jira issue ${issueId} not found`);
+        return null;
+      }
+      logger.error(`Failed to fetch Jira issue ${issueId}`, {
+        error: String(e),
+      });
+      throw e;
+    }
+  }
+
+  /**
+   * Update the status of an issue by running a workflow transition
+   * The configured name matches either the transition or its target status
+   */
+  async updateStatus(
+    issueId: string,
+    status: "in_progress" | "review"
+  ): Promise<void> {
+    const transitionName =
+      status === "in_progress"
+        ? this.settings.inProgressTransition
+        : this.settings.reviewTransition;
+
+    const { transitions } = await this.request<{ transitions: JiraTransition[] }>(
+      "GET",
+      `/issue/${encodeURIComponent(issueId)}/transitions`
+    );
+    const wanted = transitionName.toLowerCase();
+    const transition =
+      transitions.find((t) => t.name.toLowerCase() === wanted) ??
+      transitions.find((t) => t.to.name.toLowerCase() === wanted);
+
+    if (!transition) {
+      const available = transitions.map((t) => t.name).join(", ");
+      throw new Error(
+        `Transition "${transitionName}" not available for ${issueId}. Available: ${available}`
+      );
+    }
+
+    await this.request("POST", `/issue/${encodeURIComponent(issueId)}/transitions`, {
+      transition: { id: transition.id },
+    });
+    logger.info(`Updated Jira issue ${issueId} status via "${transition.name}"`);
+  }
+
+  /**
+   * Add a comment to an issue, converting markdown to ADF
+   */
+  async addComment(issueId: string, body: string): Promise<void> {
+    await this.request("POST", `/issue/${encodeURIComponent(issueId)}/comment`, {
+      body: markdownToAdf(body),
+    });
+
+    logger.info(`Added comment to Jira issue ${issueId}`);
+  }
+
+  /**
+   * Add the pull request to the issue as a remote link
+   */
+  async linkPullRequest(
+    issueId: string,
+    prUrl: string,
+    title: string
+  ): Promise<void> {
+    await this.request("POST", `/issue/${encodeURIComponent(issueId)}/remotelink`, {
+      // Linking the same URL again updates the existing link
+      globalId: prUrl,
+      object: { url: prUrl, title },
+    });
+    logger.info(`Linked pull request to Jira issue ${issueId}`, { prUrl });
+  }
+
+  /**
+   * Get repository from issue's repository field (populated from custom field)
+   */
+  getRepository(issue: Issue): string | null {
+    return issue.repository ?? null;
+  }
+
+  /**
+   * Branch name for Jira uses the issue key (e.g., "ENG-123")
+   */
+  getBranchName(issue: Issue): string {
+    return issue.identifier;
+  }
+}
@@ -0,0 +1,86 @@
+import type { ProviderDefinition } from "../registry";
+import { JiraIssueClient } from "./client";
+import { jiraWebhook } from "./webhook";
+
+/**
+ * Settings of the Jira Cloud provider
+ */
+export interface JiraSettings {
+  baseUrl: string;
+  email: string;
+  apiToken: string;
+  webhookSecret: string;
+  triggerLabel: string;
+  /** Name or ID of the custom field holding the repository */
+  repoField: string;
+  inProgressTransition: string;
+  reviewTransition: string;
+}
+
+/**
+ * Jira Cloud provider, mounted at /webhook/jira
+ */
+export const jiraProvider: ProviderDefinition<JiraSettings> = {
+  name: "jira",
+  displayName: "Jira",
+  configSchema: [
+    {
+      key: "baseUrl",
+      env: "JIRA_BASE_URL",
+      jsonKey: "jiraBaseUrl",
+      required: true,
+      description: "Jira site URL, e.g. https://example.atlassian.net",
+    },
+    {
+      key: "email",
+      env: "JIRA_EMAIL",
+      jsonKey: "jiraEmail",
+      required: true,
+      description: "Email of the account the agent acts as",
+    },
+    {
+      key: "apiToken",
+      env: "JIRA_API_TOKEN",
+      jsonKey: "jiraApiToken",
+      required: true,
+      description: "API token of that account",
+    },
+    {
+      key: "webhookSecret",
+      env: "JIRA_WEBHOOK_SECRET",
+      jsonKey: "jiraWebhookSecret",
+      required: true,
+      description: "Secret used to verify Jira webhooks",
+    },
+    {
+      key: "triggerLabel",
+      env: "JIRA_TRIGGER_LABEL",
+      jsonKey: "jiraTriggerLabel",
+      default: "ai-attempt",
+      description: "Label that triggers the agent",
+    },
+    {
+      key: "repoField",
+      env: "JIRA_REPO_FIELD",
+      jsonKey: "jiraRepoField",
+      default: "Repository",
+      description: "Custom field holding the repository name",
+    },
+    {
+      key: "inProgressTransition",
+      env: "JIRA_IN_PROGRESS_TRANSITION",
+      jsonKey: "jiraInProgressTransition",
+      default: "In Progress",
+      description: "Transition run when the agent starts",
+    },
+    {
+      key: "reviewTransition",
+      env: "JIRA_REVIEW_TRANSITION",
+      jsonKey: "jiraReviewTransition",
+      default: "In Review",
+      description: "Transition run when the PR is opened",
+    },
+  ],
+  webhook: jiraWebhook,
+  createClient: (settings) => new JiraIssueClient(settings),
+};
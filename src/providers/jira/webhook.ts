@@ -0,0 +1,241 @@
+import { Hono } from "hono";
+import { createHmac, timingSafeEqual } from "crypto";
+import { config } from "../../config";
+import { logger } from "../../logger";
+import type { AgentTask } from "../../types";
+import { JiraIssueClient } from "./client";
+import type { JiraSettings } from "./index";
+import {
+  DEFAULT_INSTANCE,
+  getProviderSettings,
+  getTypedClient,
+  isProviderConfigured,
+} from "../registry";
+import * as queue from "../../services/queue";
+import { cancelTask } from "../../services/cancel";
+import { notifyRepoRejected, resolveRepository } from "../../services/repo-registry";
+import { resolve } from "path";
+
+const jiraWebhook = new Hono();
+
+// Client and settings come from the provider registry
+function getClient(instance: string): JiraIssueClient {
+  return getTypedClient("jira", instance, JiraIssueClient);
+}
+
+function getSettings(instance: string): JiraSettings {
+  return getProviderSettings<JiraSettings>("jira", instance);
+}
+
+/**
+ * Jira webhook payload types
+ */
+interface JiraChangelogItem {
+  field: string;
+  fromString: string | null;
+  toString: string | null;
+}
+
+interface JiraIssueEvent {
+  webhookEvent: "jira:issue_created" | "jira:issue_updated" | string;
+  user?: {
+    accountId: string;
+    displayName: string;
+  };
+  issue: {
+    id: string;
+    key: string;
+    fields: {
+      summary: string;
+      labels?: string[];
+    };
+  };
+  changelog?: {
+    items: JiraChangelogItem[];
+  };
+}
+
+/**
+ * Timing-safe string comparison
+ */
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Validate a Jira webhook against the shared secret
+ * Jira Cloud webhooks registered with a secret sign the body with
+ * HMAC-SHA256 in X-Hub-Signature ("sha256=<hex>"). Senders that can't sign,
+ * such as Jira Automation's "Send web request", pass the secret in the
+ * X-Webhook-Secret header instead.
+ */
+function validateRequest(
+  body: string,
+  signature: string | null,
+  providedSecret: string | null,
+  secret: string
+): boolean {
+  if (signature) {
+    if (!signature.startsWith("sha256=")) {
+      return false;
+    }
+    const hmac = createHmac("sha256", secret);
+    hmac.update(body);
+    return safeEqual(signature.slice(7), hmac.digest("hex"));
+  }
+
+  return !!providedSecret && safeEqual(providedSecret, secret);
+}
+
+/**
+ * Work out whether an issue event added or removed the trigger label
+ * New issues count as adding it when they are created with the label
+ */
+function getTriggerChange(
+  payload: JiraIssueEvent,
+  instance: string
+): "added" | "removed" | null {
+  const triggerLabel = getSettings(instance).triggerLabel.toLowerCase();
+  const hasTrigger = (labels: string | null | undefined) =>
+    (labels ?? "")
+      .split(/\s+/)
+      .some((label) => label.toLowerCase() === triggerLabel);
+
+  if (payload.webhookEvent === "jira:issue_created") {
+    return hasTrigger(payload.issue.fields.labels?.join(" ")) ? "added" : null;
+  }
+
+  if (payload.webhookEvent !== "jira:issue_updated") {
+    return null;
+  }
+
+  // Changelog label values are space-separated label names
+  const change = payload.changelog?.items.find((item) => item.field === "labels");
+  if (!change) {
+    return null;
+  }
+
+  const before = hasTrigger(change.fromString);
+  const after = hasTrigger(change.toString);
+  if (!before && after) return "added";
+  if (before && !after) return "removed";
+  return null;
+}
+
+/**
+ * POST /webhook/jira[/:instance] - Handle incoming Jira webhooks
+ * Without an instance, the default instance handles the webhook
+ */
+jiraWebhook.post("/:instance?", async (c) => {
+  const instance = c.req.param("instance") ?? DEFAULT_INSTANCE;
+
+  // Check if this Jira instance is configured
+  if (!isProviderConfigured("jira", instance)) {
+    logger.warn("Jira webhook received but Jira is not configured", { instance });
+    return c.json({ error: "Jira not configured" }, 503);
+  }
+
+  // Get raw body for signature validation
+  const rawBody = await c.req.text();
+
+  // Validate signature or shared secret
+  const signature = c.req.header("X-Hub-Signature") ?? null;
+  const providedSecret = c.req.header("X-Webhook-Secret") ?? null;
+  if (!validateRequest(rawBody, signature, providedSecret, getSettings(instance).webhookSecret)) {
+    logger.warn("Invalid Jira webhook signature received", {
+      ip: c.req.header("x-forwarded-for") || "unknown",
+    });
+    return c.json({ error: "Invalid signature" }, 401);
+  }
+
+  // Parse payload
+  let payload: JiraIssueEvent;
+  try {
+    payload = JSON.parse(rawBody) as JiraIssueEvent;
+  } catch (e) {
+    logger.error("Failed to parse webhook payload", { error: String(e) });
+    return c.json({ error: "Invalid JSON" }, 400);
+  }
+
+  logger.debug("Received Jira webhook", {
+    event: payload.webhookEvent,
+    issue: payload.issue?.key,
+  });
+
+  if (!payload.issue?.key) {
+    logger.debug("Ignoring non-issue event", { event: payload.webhookEvent });
+    return c.json({ status: "ignored" }, 200);
+  }
+
+  const issueId = payload.issue.key;
+  const change = getTriggerChange(payload, instance);
+
+  // Removing the trigger label cancels a queued or running agent
+  if (change === "removed") {
+    const outcome = await cancelTask(
+      issueId,
+      `trigger label "${getSettings(instance).triggerLabel}" was removed`
+    );
+    return c.json({ status: outcome === "not_found" ? "ignored" : "cancelled" }, 200);
+  }
+
+  // Only process events that add the trigger label
+  if (change !== "added") {
+    logger.debug("Trigger label was not added", { issueId });
+    return c.json({ status: "ignored" }, 200);
+  }
+
+  logger.info(`Trigger label "${getSettings(instance).triggerLabel}" was added`, {
+    issue: issueId,
+  });
+
+  // Check if already queued or running
+  if (queue.isQueued(issueId) || queue.isRunning(issueId)) {
+    logger.warn("Issue already queued or running", { issueId });
+    return c.json({ status: "already_processing" }, 200);
+  }
+
+  // Fetch full issue details
+  const jiraClient = getClient(instance);
+  const issue = await jiraClient.getIssue(issueId);
+  if (!issue) {
+    logger.error("Issue not found", { issueId });
+    return c.json({ error: "Issue not found" }, 400);
+  }
+
+  // Get repository from the custom field and check it is allowed
+  const resolution = resolveRepository(jiraClient.getRepository(issue));
+  if (!resolution.ok) {
+    await notifyRepoRejected(jiraClient, issue, resolution.reason);
+    return c.json({ error: resolution.reason }, 400);
+  }
+  const repo = resolution.name;
+
+  // Create task and add to queue
+  const branchName = jiraClient.getBranchName(issue);
+  const worktreePath = resolve(config.worktreesPath, branchName);
+  const task: AgentTask = {
+    issueId: issue.id,
+    identifier: issue.identifier,
+    repo,
+    worktreePath,
+    status: "queued",
+    title: issue.title,
+    provider: "jira",
+    instance,
+  };
+
+  queue.addTask(task);
+  logger.info("Issue enqueued for processing", {
+    issueId: issue.identifier,
+    repo,
+    provider: "jira",
+    instance,
+  });
+
+  return c.json({ status: "enqueued", issueId: issue.identifier }, 200);
+});
+
+export { jiraWebhook };
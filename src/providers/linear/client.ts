@@ -3,22 +3,55 @@ import { config } from "../../config";
 import { logger } from "../../logger";
 import type { Issue, IssueLabel, IssueComment, ParentIssue } from "../../types";
 import type { IssueClient } from "../types";
+import type { LinearSettings } from "./index";
+
+export const DEFAULT_REPO_LINK_TITLE = "Repository";
+
+/**
+ * Get the title of the issue link naming the repository
+ * Falls back to the deprecated repoFieldName setting
+ */
+export function getRepoLinkTitle(settings: LinearSettings): string {
+  return settings.repoLinkTitle || settings.repoFieldName || DEFAULT_REPO_LINK_TITLE;
+}
+
+/**
+ * Read the repository from the URL of a repository link on an issue
+ * GitHub links give owner/repo (e.g. "acme/web" for
+ * https://github.com/acme/web/tree/main), other hosts the path up to
+ * GitLab's "/-/" pages.
+ */
+function readRepositoryLink(url: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+
+  const path = parsed.pathname.replace(/^\/+|\/+$/g, "").replace(/\.git$/, "");
+  const repository =
+    parsed.hostname === "github.com"
+      ? path.split("/").slice(0, 2).join("/")
+      : path.split("/-/")[0];
+  return repository || undefined;
+}
 
 /**
  * Linear issue client implementing the IssueClient interface
  *
  * Wraps the Linear SDK to provide a unified interface for issue operations.
- * Repository information comes from a custom field configured via REPO_CUSTOM_FIELD_NAME.
+ * Repository information comes from a link on the issue titled like
+ * LINEAR_REPO_LINK_TITLE; labels, team and project are kept so the
+ * repository can be resolved when there is no link.
  */
 export class LinearIssueClient implements IssueClient {
   readonly provider = "linear" as const;
   private client: LinearClient;
+  private viewerId: string | null = null;
 
-  constructor() {
-    if (!config.linearApiKey) {
-      throw new Error("LINEAR_API_KEY is required for Linear provider");
-    }
-    this.client = new LinearClient({ apiKey: config.linearApiKey });
+  constructor(private settings: LinearSettings) {
+    this.client = new LinearClient({ apiKey: settings.apiKey });
   }
 
   /**
@@ -79,26 +112,19 @@ export class LinearIssueClient implements IssueClient {
         );
       }
 
-      // Fetch custom fields to get repository
+      // The repository is a link on the issue with the configured title
       let repository: string | undefined;
       try {
-        const team = await issue.team;
-        if (team) {
-          const rawIssue = issue as unknown as Record<string, unknown>;
-          if (rawIssue.customFields && Array.isArray(rawIssue.customFields)) {
-            for (const field of rawIssue.customFields) {
-              if (typeof field === "object" && field !== null) {
-                const f = field as Record<string, unknown>;
-                if (f.name === config.repoCustomFieldName && f.value) {
-                  repository = String(f.value);
-                  break;
-                }
-              }
-            }
-          }
+        const title = getRepoLinkTitle(this.settings).toLowerCase();
+        const attachments = await issue.attachments();
+        const link = attachments.nodes.find(
+          (attachment) => attachment.title.toLowerCase() === title
+        );
+        if (link) {
+          repository = readRepositoryLink(link.url);
         }
       } catch (e) {
-        logger.debug("Could not fetch custom fields", { error: String(e) });
+        logger.debug("Could not fetch attachments", { error: String(e) });
       }
 
       // Fetch parent issue if exists
@@ -117,9 +143,10 @@ export class LinearIssueClient implements IssueClient {
         logger.debug("Could not fetch parent issue", { error: String(e) });
       }
 
-      // Fetch state and team for metadata
+      // Fetch state, team and project for metadata
       const state = await issue.state;
       const team = await issue.team;
+      const project = await issue.project;
 
       const genericIssue: Issue = {
         id: issue.id,
@@ -130,9 +157,11 @@ export class LinearIssueClient implements IssueClient {
         comments,
         parent,
         repository,
+        url: issue.url,
         metadata: {
           state: state ? { id: state.id, name: state.name } : undefined,
           team: team ? { id: team.id, key: team.key } : undefined,
+          project: project ? { id: project.id, name: project.name } : undefined,
         },
       };
 
@@ -152,7 +181,9 @@ export class LinearIssueClient implements IssueClient {
     status: "in_progress" | "review"
   ): Promise<void> {
     const statusName =
-      status === "in_progress" ? config.inProgressStatus : config.reviewStatus;
+      status === "in_progress"
+        ? this.settings.inProgressStatus
+        : this.settings.reviewStatus;
 
     try {
       logger.debug(`Updating issue ${issueId} status to "${statusName}"`);
@@ -213,7 +244,38 @@ export class LinearIssueClient implements IssueClient {
   }
 
   /**
-   * Get repository from issue's repository field (populated from custom field)
+   * Attach the pull request to the issue as a link
+   */
+  async linkPullRequest(
+    issueId: string,
+    prUrl: string,
+    title: string
+  ): Promise<void> {
+    try {
+      await this.client.attachmentLinkURL(issueId, prUrl, { title });
+      logger.info(`Linked pull request to issue ${issueId}`, { prUrl });
+    } catch (e) {
+      logger.error(`Failed to link pull request to issue ${issueId}`, {
+        error: String(e),
+      });
+      throw e;
+    }
+  }
+
+  /**
+   * Get the ID of the user the API key belongs to (cached)
+   * Used to ignore webhook events caused by the agent itself
+   */
+  async getViewerId(): Promise<string> {
+    if (!this.viewerId) {
+      const viewer = await this.client.viewer;
+      this.viewerId = viewer.id;
+    }
+    return this.viewerId;
+  }
+
+  /**
+   * Get repository from issue's repository field (populated from the repository link)
    */
   getRepository(issue: Issue): string | null {
     return issue.repository ?? null;
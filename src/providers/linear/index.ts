@@ -0,0 +1,94 @@
+import type { ProviderDefinition } from "../registry";
+import { DEFAULT_REPO_LINK_TITLE, LinearIssueClient } from "./client";
+import { linearWebhook } from "./webhook";
+
+/**
+ * Settings of the Linear provider
+ */
+export interface LinearSettings {
+  apiKey: string;
+  webhookSecret: string;
+  triggerLabel: string;
+  /** Title of the issue link naming the repository */
+  repoLinkTitle?: string;
+  /** Deprecated name of repoLinkTitle, from when it named a custom field */
+  repoFieldName?: string;
+  inProgressStatus: string;
+  reviewStatus: string;
+}
+
+/**
+ * Linear issue provider, mounted at /webhook/linear
+ */
+export const linearProvider: ProviderDefinition<LinearSettings> = {
+  name: "linear",
+  displayName: "Linear",
+  configSchema: [
+    {
+      key: "apiKey",
+      env: "LINEAR_API_KEY",
+      jsonKey: "linearApiKey",
+      required: true,
+      description: "Linear API key",
+    },
+    {
+      key: "webhookSecret",
+      env: "LINEAR_WEBHOOK_SECRET",
+      jsonKey: "linearWebhookSecret",
+      required: true,
+      description: "Secret used to verify Linear webhook signatures",
+    },
+    {
+      key: "triggerLabel",
+      env: ["LINEAR_TRIGGER_LABEL", "TRIGGER_LABEL"],
+      jsonKey: "linearTriggerLabel",
+      default: "ai-attempt",
+      description: "Label that triggers the agent",
+    },
+    {
+      key: "repoLinkTitle",
+      env: "LINEAR_REPO_LINK_TITLE",
+      jsonKey: "linearRepoLinkTitle",
+      description: `Title of the issue link naming the repository (default "${DEFAULT_REPO_LINK_TITLE}")`,
+    },
+    {
+      key: "repoFieldName",
+      env: "REPO_CUSTOM_FIELD_NAME",
+      jsonKey: "repoCustomFieldName",
+      description: "Deprecated, use LINEAR_REPO_LINK_TITLE",
+    },
+    {
+      key: "inProgressStatus",
+      env: "IN_PROGRESS_STATUS",
+      jsonKey: "inProgressStatus",
+      default: "In Progress",
+      description: "Workflow state set when the agent starts",
+    },
+    {
+      key: "reviewStatus",
+      env: "REVIEW_STATUS",
+      jsonKey: "reviewStatus",
+      default: "In Review",
+      description: "Workflow state set when the PR is opened",
+    },
+  ],
+  webhook: linearWebhook,
+  createClient: (settings) => new LinearIssueClient(settings),
+  validate: (settings) => {
+    const warnings: string[] = [];
+    if (settings.repoFieldName) {
+      warnings.push(
+        settings.repoLinkTitle
+          ? "REPO_CUSTOM_FIELD_NAME is deprecated and ignored because LINEAR_REPO_LINK_TITLE is set - remove it"
+          : "REPO_CUSTOM_FIELD_NAME is deprecated - it names the title of the issue link holding the repository, not a custom field. Rename it to LINEAR_REPO_LINK_TITLE"
+      );
+    }
+    if (settings.apiKey && !settings.webhookSecret) {
+      warnings.push("LINEAR_API_KEY is set but LINEAR_WEBHOOK_SECRET is missing - Linear provider will not work");
+    }
+    if (!settings.apiKey && settings.webhookSecret) {
+      warnings.push("LINEAR_WEBHOOK_SECRET is set but LINEAR_API_KEY is missing - Linear provider will not work");
+    }
+    return warnings;
+  },
+};
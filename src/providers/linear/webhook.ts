@@ -3,20 +3,33 @@ import { createHmac } from "crypto";
 import { config } from "../../config";
 import { logger } from "../../logger";
 import type { WebhookPayload, WebhookFilterResult, AgentTask } from "../../types";
-import { LinearIssueClient } from "./client";
+import { getRepoLinkTitle, LinearIssueClient } from "./client";
+import type { LinearSettings } from "./index";
+import {
+  DEFAULT_INSTANCE,
+  getProviderSettings,
+  getTypedClient,
+  isProviderConfigured,
+} from "../registry";
 import * as queue from "../../services/queue";
+import { cancelTask } from "../../services/cancel";
+import { containsMention, enqueueMentionFollowUp } from "../../services/mention";
+import {
+  getLinearRepoContext,
+  notifyRepoRejected,
+  resolveRepository,
+} from "../../services/repo-registry";
 import { resolve } from "path";
 
 const linearWebhook = new Hono();
 
-// Lazy-loaded client instance
-let client: LinearIssueClient | null = null;
+// Client and settings come from the provider registry
+function getClient(instance: string): LinearIssueClient {
+  return getTypedClient("linear", instance, LinearIssueClient);
+}
 
-function getClient(): LinearIssueClient {
-  if (!client) {
-    client = new LinearIssueClient();
-  }
-  return client;
+function getSettings(instance: string): LinearSettings {
+  return getProviderSettings<LinearSettings>("linear", instance);
 }
 
 /**
@@ -39,12 +52,55 @@ function validateSignature(
   return signature === expectedSignature;
 }
 
+/**
+ * Check if a webhook payload removes the trigger label from an issue
+ * that is currently queued or running
+ */
+async function isTriggerRemoved(
+  payload: WebhookPayload,
+  instance: string
+): Promise<boolean> {
+  if (payload.type !== "Issue" || payload.action !== "update") {
+    return false;
+  }
+
+  const previousLabelIds = payload.updatedFrom?.labelIds;
+  if (!previousLabelIds) {
+    return false;
+  }
+
+  // Only look up labels for issues the agent is actually working on
+  const issueId = payload.data.id;
+  if (!queue.isQueued(issueId) && !queue.isRunning(issueId)) {
+    return false;
+  }
+
+  const currentLabelIds = payload.data.labelIds || [];
+  const removedLabelIds = previousLabelIds.filter(
+    (id) => !currentLabelIds.includes(id)
+  );
+
+  const linearClient = getClient(instance);
+  for (const labelId of removedLabelIds) {
+    const label = await linearClient.getLabel(labelId);
+    if (
+      label &&
+      label.name.toLowerCase() === getSettings(instance).triggerLabel.toLowerCase()
+    ) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
 /**
  * Check if a webhook payload should be processed
  * Only process label-added events for the trigger label
  */
 async function shouldProcess(
-  payload: WebhookPayload
+  payload: WebhookPayload,
+  instance: string
 ): Promise<WebhookFilterResult> {
   // Only process Issue events
   if (payload.type !== "Issue") {
@@ -80,14 +136,14 @@ async function shouldProcess(
   }
 
   // Check if any added label is the trigger label
-  const linearClient = getClient();
+  const linearClient = getClient(instance);
   for (const labelId of addedLabelIds) {
     const label = await linearClient.getLabel(labelId);
     if (
       label &&
-      label.name.toLowerCase() === config.linearTriggerLabel.toLowerCase()
+      label.name.toLowerCase() === getSettings(instance).triggerLabel.toLowerCase()
     ) {
-      logger.info(`Trigger label "${config.linearTriggerLabel}" was added`, {
+      logger.info(`Trigger label "${getSettings(instance).triggerLabel}" was added`, {
         issueId: payload.data.id,
       });
       return {
@@ -100,18 +156,78 @@ async function shouldProcess(
 
   logger.debug("Added labels do not include trigger label", {
     addedLabelIds,
-    triggerLabel: config.linearTriggerLabel,
+    triggerLabel: getSettings(instance).triggerLabel,
   });
   return { shouldProcess: false };
 }
 
 /**
- * POST /webhook/linear - Handle incoming Linear webhooks
+ * Queue a follow-up run for a new comment that mentions the agent
+ */
+async function handleComment(
+  payload: WebhookPayload,
+  instance: string
+): Promise<string> {
+  const { body, issueId } = payload.data;
+  if (payload.action !== "create" || !body || !issueId || !containsMention(body)) {
+    return "ignored";
+  }
+
+  const linearClient = getClient(instance);
+  if (payload.data.userId === (await linearClient.getViewerId())) {
+    return "ignored";
+  }
+
+  const issue = await linearClient.getIssue(issueId);
+  if (!issue) {
+    logger.error("Issue not found", { issueId });
+    return "ignored";
+  }
+
+  const resolution = resolveRepository(
+    linearClient.getRepository(issue),
+    getLinearRepoContext(issue)
+  );
+  if (!resolution.ok) {
+    await notifyRepoRejected(linearClient, issue, resolution.reason);
+    return "rejected";
+  }
+
+  logger.info("Agent mentioned in comment", {
+    issueId: issue.identifier,
+    commentId: payload.data.id,
+  });
+  const branchName = linearClient.getBranchName(issue);
+  return enqueueMentionFollowUp(
+    {
+      issueId: issue.id,
+      identifier: issue.identifier,
+      repo: resolution.name,
+      worktreePath: resolve(config.worktreesPath, branchName),
+      status: "queued",
+      title: issue.title,
+      provider: "linear",
+      instance,
+      repoSource: resolution.source,
+    },
+    {
+      id: payload.data.id,
+      author: payload.data.user?.name ?? "Unknown",
+      body,
+    }
+  );
+}
+
+/**
+ * POST /webhook/linear[/:instance] - Handle incoming Linear webhooks
+ * Without an instance, the default instance handles the webhook
  */
-linearWebhook.post("/", async (c) => {
-  // Check if Linear is configured
-  if (!config.linearApiKey || !config.linearWebhookSecret) {
-    logger.warn("Linear webhook received but Linear is not configured");
+linearWebhook.post("/:instance?", async (c) => {
+  const instance = c.req.param("instance") ?? DEFAULT_INSTANCE;
+
+  // Check if this Linear instance is configured
+  if (!isProviderConfigured("linear", instance)) {
+    logger.warn("Linear webhook received but Linear is not configured", { instance });
     return c.json({ error: "Linear not configured" }, 503);
   }
 
@@ -120,7 +236,7 @@ linearWebhook.post("/", async (c) => {
 
   // Validate signature
   const signature = c.req.header("Linear-Signature") ?? null;
-  if (!validateSignature(rawBody, signature, config.linearWebhookSecret)) {
+  if (!validateSignature(rawBody, signature, getSettings(instance).webhookSecret)) {
     logger.warn("Invalid webhook signature received", {
       ip: c.req.header("x-forwarded-for") || "unknown",
     });
@@ -142,34 +258,49 @@ linearWebhook.post("/", async (c) => {
     issueId: payload.data.id,
   });
 
+  // A comment mentioning the agent starts a follow-up run
+  if (payload.type === "Comment") {
+    const status = await handleComment(payload, instance);
+    return c.json({ status }, 200);
+  }
+
+  // Removing the trigger label cancels a queued or running agent
+  if (await isTriggerRemoved(payload, instance)) {
+    await cancelTask(
+      payload.data.id,
+      `trigger label "${getSettings(instance).triggerLabel}" was removed`
+    );
+    return c.json({ status: "cancelled" }, 200);
+  }
+
   // Check if we should process this webhook
-  const filterResult = await shouldProcess(payload);
+  const filterResult = await shouldProcess(payload, instance);
   if (!filterResult.shouldProcess || !filterResult.issueId) {
     return c.json({ status: "ignored" }, 200);
   }
 
   // Fetch full issue details
-  const linearClient = getClient();
+  const linearClient = getClient(instance);
   const issue = await linearClient.getIssue(filterResult.issueId);
   if (!issue) {
     logger.error("Issue not found", { issueId: filterResult.issueId });
     return c.json({ error: "Issue not found" }, 400);
   }
 
-  // Get repository from custom field
-  const repo = linearClient.getRepository(issue);
-  if (!repo) {
-    logger.error("Repository not specified in issue custom field", {
-      issueId: issue.identifier,
-      customFieldName: config.repoCustomFieldName,
-    });
-    return c.json(
-      {
-        error: `Repository not specified. Please set the "${config.repoCustomFieldName}" custom field.`,
-      },
-      400
-    );
+  // Get repository from the repository link, a label, or the team or
+  // project mapping, and check it is allowed
+  const field = linearClient.getRepository(issue);
+  const context = getLinearRepoContext(issue);
+  const resolution = resolveRepository(field, context);
+  if (!resolution.ok) {
+    const explicit = field || context.labels?.some((label) => /^repo:/i.test(label));
+    const reason = explicit
+      ? resolution.reason
+      : `${resolution.reason} Please link the repository with a link titled "${getRepoLinkTitle(getSettings(instance))}", or add a \`repo:<name>\` label.`;
+    await notifyRepoRejected(linearClient, issue, reason);
+    return c.json({ error: reason }, 400);
   }
+  const repo = resolution.name;
 
   // Check if already queued or running
   if (queue.isQueued(issue.id) || queue.isRunning(issue.id)) {
@@ -188,13 +319,17 @@ linearWebhook.post("/", async (c) => {
     status: "queued",
     title: issue.title,
     provider: "linear",
+    instance,
+    repoSource: resolution.source,
   };
 
   queue.addTask(task);
   logger.info("Issue enqueued for processing", {
     issueId: issue.identifier,
     repo,
+    repoSource: resolution.source,
     provider: "linear",
+    instance,
   });
 
   return c.json({ status: "enqueued", issueId: issue.identifier }, 200);
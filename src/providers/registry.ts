@@ -0,0 +1,410 @@
+import type { Hono } from "hono";
+import { config, jsonConfig } from "../config";
+import type { IssueProvider } from "../types";
+import type { IssueClient } from "./types";
+
+/**
+ * Settings of a provider, keyed by setting name
+ */
+export type ProviderSettings = Record<string, string | undefined>;
+
+/**
+ * A setting declared by a provider
+ *
+ * For the default instance, values are read from config.json first, then
+ * from the environment, then the default. Named instances read their
+ * settings from config.json `providerInstances`, falling back to the default.
+ */
+export interface ProviderConfigField<S = ProviderSettings> {
+  /** Key of the setting in the provider's settings */
+  key: keyof S & string;
+  /** Environment variables to read, in order of precedence */
+  env: string | string[];
+  /** Top-level config.json key */
+  jsonKey?: string;
+  default?: string;
+  /** Whether the provider can't run without this setting */
+  required?: boolean;
+  description: string;
+  /**
+   * Describe what is wrong with a value, e.g. "must be an http(s) URL"
+   * Returns null for valid values. Invalid values stop the server from starting.
+   */
+  check?(value: string): string | null;
+}
+
+/**
+ * Everything the server needs to know about an issue provider
+ *
+ * Each provider module exports one definition, registered in
+ * providers/index.ts. The server mounts the webhook of every configured
+ * provider at /webhook/<name>; named instances are routed to the same
+ * router at /webhook/<name>/<instance>, with the instance in the
+ * "instance" route parameter.
+ */
+export interface ProviderDefinition<S = ProviderSettings> {
+  /** Provider name, used in webhook paths, tasks and the retry API */
+  name: IssueProvider;
+  /** Human-readable name for logs */
+  displayName: string;
+  /** Settings the provider reads */
+  configSchema: ProviderConfigField<S>[];
+  /** Router handling the provider's webhooks */
+  webhook: Hono;
+  /** Create the provider's issue client */
+  createClient(settings: S): IssueClient;
+  /**
+   * Report missing settings that `required` can't express, such as
+   * "a token or a GitHub App"
+   */
+  getMissingSettings?(settings: S): string[];
+  /**
+   * Check the default instance's settings, returning warnings
+   * Defaults to warning when only some required settings are set
+   */
+  validate?(settings: S): string[];
+}
+
+/**
+ * Instance configured by the top-level provider settings
+ */
+export const DEFAULT_INSTANCE = "default";
+
+// Instance names appear in webhook URLs
+const INSTANCE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * A provider as the registry keeps it
+ *
+ * Everything that takes the provider's own settings type is wrapped in a
+ * function of the instance name, so providers with different settings types
+ * can share one map without erasing those types.
+ */
+export interface RegisteredProvider {
+  name: IssueProvider;
+  displayName: string;
+  configSchema: ProviderConfigField[];
+  webhook: Hono;
+  createClient(instance: string): IssueClient;
+  getMissingSettings(instance: string): string[];
+  validate?(instance: string): string[];
+}
+
+const providers = new Map<IssueProvider, RegisteredProvider>();
+// Settings and clients are keyed by "<provider>/<instance>"
+const settingsCache = new Map<string, ProviderSettings>();
+const clients = new Map<string, IssueClient>();
+
+/**
+ * Register an issue provider
+ * @throws Error if a provider with the same name is already registered
+ */
+export function registerProvider<S>(definition: ProviderDefinition<S>): void {
+  const { name, validate } = definition;
+  if (providers.has(name)) {
+    throw new Error(`Provider "${name}" is already registered`);
+  }
+  const settingsOf = (instance: string) => getProviderSettings<S>(name, instance);
+  providers.set(name, {
+    name,
+    displayName: definition.displayName,
+    // Keys are read as plain strings once registered
+    configSchema: definition.configSchema.map((field) => ({ ...field, key: field.key })),
+    webhook: definition.webhook,
+    createClient: (instance) => definition.createClient(settingsOf(instance)),
+    getMissingSettings: (instance) =>
+      definition.getMissingSettings?.(settingsOf(instance)) ?? [],
+    validate: validate && ((instance) => validate(settingsOf(instance))),
+  });
+}
+
+/**
+ * Get all registered providers, in registration order
+ */
+export function getProviderDefinitions(): RegisteredProvider[] {
+  return [...providers.values()];
+}
+
+/**
+ * Check if a provider is registered, whether or not it is configured
+ */
+export function isKnownProvider(name: string): name is IssueProvider {
+  return providers.has(name);
+}
+
+/**
+ * Get a registered provider
+ * @throws Error if the provider is not registered
+ */
+function getDefinition(name: IssueProvider): RegisteredProvider {
+  const definition = providers.get(name);
+  if (!definition) {
+    throw new Error(`Unknown provider: ${name}`);
+  }
+  return definition;
+}
+
+/**
+ * Get the instances of a provider: the default instance, then any named
+ * instances from config.json
+ */
+export function getProviderInstances(name: IssueProvider): string[] {
+  const named = Object.keys(config.providerInstances[name] ?? {}).filter(
+    (instance) => instance !== DEFAULT_INSTANCE
+  );
+  return [DEFAULT_INSTANCE, ...named];
+}
+
+/**
+ * Describe a provider instance for logs and errors, e.g. Linear instance "acme"
+ */
+function describeInstance(definition: RegisteredProvider, instance: string): string {
+  return instance === DEFAULT_INSTANCE
+    ? definition.displayName
+    : `${definition.displayName} instance "${instance}"`;
+}
+
+/**
+ * Read a setting of the default instance from config.json or the environment
+ */
+function readField(field: ProviderConfigField): string | undefined {
+  const fromJson = field.jsonKey ? jsonConfig[field.jsonKey] : undefined;
+  if (typeof fromJson === "string" && fromJson) {
+    return fromJson;
+  }
+
+  const envNames = Array.isArray(field.env) ? field.env : [field.env];
+  for (const name of envNames) {
+    if (process.env[name]) {
+      return process.env[name];
+    }
+  }
+  return field.default;
+}
+
+/**
+ * Get the settings of a provider instance (cached)
+ * Required settings are only guaranteed to be set for configured instances.
+ */
+export function getProviderSettings<S = ProviderSettings>(
+  name: IssueProvider,
+  instance: string = DEFAULT_INSTANCE
+): S {
+  const cacheKey = `${name}/${instance}`;
+  let settings = settingsCache.get(cacheKey);
+  if (!settings) {
+    const named = config.providerInstances[name]?.[instance];
+    settings = {};
+    for (const field of getDefinition(name).configSchema) {
+      settings[field.key] =
+        instance === DEFAULT_INSTANCE
+          ? readField(field)
+          : named?.[field.key] || field.default;
+    }
+    settingsCache.set(cacheKey, settings);
+  }
+  return settings as S;
+}
+
+/**
+ * Name a setting of an instance as users set it: the environment variable
+ * for the default instance, the config.json path for named ones
+ */
+function getSettingName(
+  name: IssueProvider,
+  instance: string,
+  field: ProviderConfigField
+): string {
+  if (instance !== DEFAULT_INSTANCE) {
+    return `providerInstances.${name}.${instance}.${field.key}`;
+  }
+  return Array.isArray(field.env) ? field.env[0] : field.env;
+}
+
+/**
+ * Get the required settings of an instance that are not set
+ */
+function getMissingSettings(name: IssueProvider, instance: string): string[] {
+  const settings = getProviderSettings(name, instance);
+  const definition = getDefinition(name);
+  const missing = definition.configSchema
+    .filter((field) => field.required && !settings[field.key])
+    .map((field) => getSettingName(name, instance, field));
+  return [...missing, ...definition.getMissingSettings(instance)];
+}
+
+/**
+ * Describe the settings of an instance whose values fail their check
+ */
+function getInvalidSettings(name: IssueProvider, instance: string): string[] {
+  const settings = getProviderSettings(name, instance);
+  const invalid: string[] = [];
+  for (const field of getDefinition(name).configSchema) {
+    const value = settings[field.key];
+    const problem = value && field.check ? field.check(value) : null;
+    if (problem) {
+      invalid.push(`${getSettingName(name, instance, field)} ${problem} (got "${value}")`);
+    }
+  }
+  return invalid;
+}
+
+/**
+ * Check if a provider instance exists and all its required settings are set
+ */
+export function isProviderConfigured(
+  name: IssueProvider,
+  instance: string = DEFAULT_INSTANCE
+): boolean {
+  return (
+    isKnownProvider(name) &&
+    getProviderInstances(name).includes(instance) &&
+    getMissingSettings(name, instance).length === 0
+  );
+}
+
+/**
+ * Get the configured instances of a provider
+ */
+export function getConfiguredInstances(name: IssueProvider): string[] {
+  if (!isKnownProvider(name)) {
+    return [];
+  }
+  return getProviderInstances(name).filter((instance) =>
+    isProviderConfigured(name, instance)
+  );
+}
+
+/**
+ * Get list of all providers with at least one configured instance
+ */
+export function getConfiguredProviders(): IssueProvider[] {
+  return getProviderDefinitions()
+    .map((definition) => definition.name)
+    .filter((name) => getConfiguredInstances(name).length > 0);
+}
+
+/**
+ * Get the issue client for a provider instance
+ *
+ * Clients are lazily instantiated on first use, one per instance. This
+ * allows the application to run with only some providers configured.
+ *
+ * @param name - The issue provider to get a client for
+ * @param instance - The provider instance, defaults to the default instance
+ * @returns The configured client for that instance
+ * @throws Error if the provider or instance is unknown or not configured
+ */
+export function getClient(
+  name: IssueProvider,
+  instance: string = DEFAULT_INSTANCE
+): IssueClient {
+  const cacheKey = `${name}/${instance}`;
+  let client = clients.get(cacheKey);
+  if (!client) {
+    const definition = getDefinition(name);
+    if (!getProviderInstances(name).includes(instance)) {
+      throw new Error(`Unknown ${definition.displayName} instance: ${instance}`);
+    }
+    const missing = getMissingSettings(name, instance);
+    if (missing.length > 0) {
+      throw new Error(
+        `${describeInstance(definition, instance)} requested but ${missing.join(", ")} ${
+          missing.length > 1 ? "are" : "is"
+        } not configured`
+      );
+    }
+    client = definition.createClient(instance);
+    clients.set(cacheKey, client);
+  }
+  return client;
+}
+
+/**
+ * Get a provider's client as its concrete class, for provider-specific calls
+ */
+export function getTypedClient<C extends IssueClient>(
+  name: IssueProvider,
+  instance: string | undefined,
+  type: abstract new (...args: never[]) => C
+): C {
+  const client = getClient(name, instance);
+  if (!(client instanceof type)) {
+    throw new Error(`${name} client is not a ${type.name}`);
+  }
+  return client;
+}
+
+/**
+ * Validate provider settings at startup
+ * Logs warnings about partially configured providers.
+ *
+ * @throws Error if no provider is configured
+ */
+export function validateProviders(): void {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const [name, instances] of Object.entries(config.providerInstances)) {
+    if (!isKnownProvider(name)) {
+      errors.push(`providerInstances lists unknown provider "${name}"`);
+      continue;
+    }
+    for (const instance of Object.keys(instances)) {
+      if (instance === DEFAULT_INSTANCE) {
+        warnings.push(
+          `providerInstances.${name}.${instance} is ignored - the default instance uses the top-level settings`
+        );
+      } else if (!INSTANCE_NAME_PATTERN.test(instance)) {
+        errors.push(
+          `Instance name "${instance}" of ${name} may only contain letters, digits, "-" and "_"`
+        );
+      }
+    }
+  }
+
+  for (const definition of getProviderDefinitions()) {
+    for (const instance of getProviderInstances(definition.name)) {
+      // Checked even for unconfigured providers: defaults like GITLAB_URL
+      // are also used by the core (e.g. to open merge requests)
+      errors.push(...getInvalidSettings(definition.name, instance));
+
+      const isDefault = instance === DEFAULT_INSTANCE;
+      if (isDefault && definition.validate) {
+        warnings.push(...definition.validate(instance));
+        continue;
+      }
+
+      // Named instances exist only to be used, so any gap is worth a warning
+      const missing = getMissingSettings(definition.name, instance);
+      const required = definition.configSchema.filter((field) => field.required);
+      if (missing.length > 0 && (!isDefault || missing.length < required.length)) {
+        warnings.push(
+          `${describeInstance(definition, instance)} is partially configured - ${missing.join(", ")} missing, it will not work`
+        );
+      }
+    }
+  }
+
+  for (const warning of warnings) {
+    console.warn(`Warning: ${warning}`);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Configuration errors:\n${errors.map((e) => `  - ${e}`).join("\n")}`
+    );
+  }
+
+  if (getConfiguredProviders().length === 0) {
+    const options = getProviderDefinitions().map((definition) =>
+      definition.configSchema
+        .filter((field) => field.required)
+        .map((field) => (Array.isArray(field.env) ? field.env[0] : field.env))
+        .join(" + ")
+    );
+    throw new Error(
+      `Configuration errors:\n  - At least one provider must be configured. Set ${options.join(", or ")}`
+    );
+  }
+}
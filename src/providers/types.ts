@@ -1,4 +1,4 @@
-import type { Issue, IssueProvider } from "../types";
+import type { CodeHostKind, Issue, IssueProvider } from "../types";
 
 /**
  * Result of fetching an issue
@@ -28,7 +28,8 @@ export interface IssueClient {
   /**
    * Update the status of an issue
    * - Linear: Changes workflow state
-   * - GitHub: Adds/removes labels
+   * - GitHub, GitLab: Adds/removes labels
+   * - Jira: Runs a workflow transition
    *
    * @param issueId - The provider-specific issue ID
    * @param status - Status name ("in_progress" or "review")
@@ -44,8 +45,9 @@ export interface IssueClient {
 
   /**
    * Get the repository identifier from an issue
-   * - Linear: From custom field
+   * - Linear, Jira: From custom field
    * - GitHub: From the issue's repository
+   * - GitLab: From the issue's project
    *
    * @param issue - The issue to extract repository from
    * @returns Repository path (e.g., "owner/repo" or just "repo-name")
@@ -54,10 +56,131 @@ export interface IssueClient {
 
   /**
    * Get the branch name for an issue
-   * - Linear: Uses identifier (e.g., "ENG-123")
+   * - Linear, Jira: Uses identifier (e.g., "ENG-123")
    * - GitHub: Formats as "owner-repo-123"
+   * - GitLab: Formats as "group-project-123"
    *
    * @param issue - The issue to generate branch name for
    */
   getBranchName(issue: Issue): string;
+
+  /**
+   * Attach a pull request to an issue, for providers that can't rely on
+   * closing keywords in the PR body
+   * - Linear: Adds a link attachment
+   * - Jira: Adds a remote link
+   * - GitHub, GitLab: Not implemented ("Closes" in the PR body links it)
+   *
+   * @param issueId - The provider-specific issue ID
+   * @param prUrl - URL of the pull request
+   * @param title - Title shown for the attachment
+   */
+  linkPullRequest?(issueId: string, prUrl: string, title: string): Promise<void>;
+}
+
+/**
+ * A pull request, or merge request on GitLab, as returned by a code host
+ */
+export interface HostedPullRequest {
+  /** GitHub PR number or GitLab MR iid */
+  number: number;
+  url: string;
+  draft: boolean;
+  /** Neither merged nor closed */
+  open: boolean;
+}
+
+/**
+ * Fields accepted when opening a pull request
+ */
+export interface CreatePullRequestInput {
+  title: string;
+  body: string;
+  /** Branch with the changes */
+  head: string;
+  /** Branch the changes should be merged into */
+  base: string;
+  draft?: boolean;
+}
+
+/**
+ * Credentials for pushing a branch over HTTPS
+ */
+export interface GitCredentials {
+  /** HTTPS URL of the repository to push to */
+  url: string;
+  username: string;
+  password: string;
+}
+
+/**
+ * Common interface for code host clients
+ *
+ * Each code host (GitHub, GitLab) implements this interface so pull
+ * requests can be opened wherever a repository lives, independently of
+ * the issue provider the task came from. Projects are identified by their
+ * path on the host (e.g. "owner/repo" or "group/subgroup/repo").
+ */
+export interface CodeHostClient {
+  /** The code host this client handles */
+  readonly host: CodeHostKind;
+
+  /**
+   * Get the project path from a git remote URL
+   * @returns The project path, or null if the remote isn't on this host
+   */
+  parseRemote(url: string): string | null;
+
+  /**
+   * Get the project and number of a pull request from its web URL
+   * @returns null if the URL isn't a pull request on this host
+   */
+  parsePullRequestUrl(url: string): { project: string; number: number } | null;
+
+  /**
+   * Get a pull request by number
+   */
+  getPullRequest(project: string, number: number): Promise<HostedPullRequest>;
+
+  /**
+   * Find the open pull request for a branch, if any
+   */
+  findOpenPullRequest(project: string, branch: string): Promise<HostedPullRequest | null>;
+
+  /**
+   * Open a pull request
+   */
+  createPullRequest(project: string, input: CreatePullRequestInput): Promise<HostedPullRequest>;
+
+  /**
+   * Update the title and body of a pull request
+   */
+  updatePullRequest(
+    project: string,
+    number: number,
+    changes: { title: string; body: string }
+  ): Promise<HostedPullRequest>;
+
+  /**
+   * Request reviews on a pull request
+   * @param reviewers - Usernames; GitHub also accepts "org/team" slugs
+   */
+  requestReviewers(project: string, number: number, reviewers: string[]): Promise<void>;
+
+  /**
+   * Add labels to a pull request
+   */
+  addLabels(project: string, number: number, labels: string[]): Promise<void>;
+
+  /**
+   * Assign users to a pull request
+   */
+  addAssignees(project: string, number: number, assignees: string[]): Promise<void>;
+
+  /**
+   * Get credentials to push to a project with, for hosts that issue their
+   * own tokens (e.g. a GitHub App)
+   * @returns null to push with the remote's own credentials
+   */
+  getPushCredentials?(project: string): Promise<GitCredentials | null>;
 }
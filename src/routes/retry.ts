@@ -2,9 +2,14 @@ import { Hono } from "hono";
 import { resolve } from "path";
 import { config } from "../config";
 import { logger } from "../logger";
-import { getClient, isProviderConfigured } from "../providers";
+import { DEFAULT_INSTANCE, getClient, isProviderConfigured } from "../providers";
 import * as queue from "../services/queue";
 import { triggerProcessing } from "../services/processor";
+import {
+  getLinearRepoContext,
+  notifyRepoRejected,
+  resolveRepository,
+} from "../services/repo-registry";
 import type { AgentTask, IssueProvider } from "../types";
 
 const retry = new Hono();
@@ -13,19 +18,24 @@ const retry = new Hono();
  * POST /retry/:issueId - Manually retry a failed or stuck issue
  *
  * Query parameters:
- * - provider: "linear" | "github" (defaults to "linear" for backwards compatibility)
+ * - provider: a registered provider such as "linear", "github", "gitlab" or "jira" (defaults to "linear" for backwards compatibility)
+ * - instance: named provider instance (defaults to the default instance)
  */
 retry.post("/:issueId", async (c) => {
   const issueId = c.req.param("issueId");
   const providerParam = c.req.query("provider") as IssueProvider | undefined;
   const provider: IssueProvider = providerParam || "linear";
+  const instance = c.req.query("instance") || DEFAULT_INSTANCE;
 
-  logger.info(`Manual retry requested for issue ${issueId}`, { provider });
+  logger.info(`Manual retry requested for issue ${issueId}`, { provider, instance });
 
-  // Validate provider is configured
-  if (!isProviderConfigured(provider)) {
-    logger.error(`Provider ${provider} is not configured`);
-    return c.json({ error: `Provider "${provider}" is not configured` }, 400);
+  // Validate provider instance is configured
+  if (!isProviderConfigured(provider, instance)) {
+    logger.error(`Provider ${provider} (instance ${instance}) is not configured`);
+    return c.json(
+      { error: `Provider "${provider}" (instance "${instance}") is not configured` },
+      400
+    );
   }
 
   // Check if already queued or running
@@ -40,7 +50,7 @@ retry.post("/:issueId", async (c) => {
   }
 
   // Get the appropriate client
-  const client = getClient(provider);
+  const client = getClient(provider, instance);
 
   // Fetch fresh issue data
   const issue = await client.getIssue(issueId);
@@ -49,17 +59,16 @@ retry.post("/:issueId", async (c) => {
     return c.json({ error: "Issue not found" }, 404);
   }
 
-  // Get repository from issue
-  const repo = client.getRepository(issue);
-  if (!repo) {
-    logger.error(`Repository not specified for issue ${issue.identifier}`);
-    return c.json(
-      {
-        error: `Repository not specified for this issue.`,
-      },
-      400
-    );
+  // Get repository from issue and check it is allowed
+  const resolution = resolveRepository(
+    client.getRepository(issue),
+    provider === "linear" ? getLinearRepoContext(issue) : {}
+  );
+  if (!resolution.ok) {
+    await notifyRepoRejected(client, issue, resolution.reason);
+    return c.json({ error: resolution.reason }, 400);
   }
+  const repo = resolution.name;
 
   // Get branch name from client
   const branchName = client.getBranchName(issue);
@@ -74,15 +83,17 @@ retry.post("/:issueId", async (c) => {
     status: "queued",
     title: issue.title,
     provider,
+    instance,
+    repoSource: provider === "linear" ? resolution.source : undefined,
   };
 
   queue.addTask(task);
-  logger.info(`Issue ${issue.identifier} added to queue for retry`, { provider });
+  logger.info(`Issue ${issue.identifier} added to queue for retry`, { provider, instance });
 
   // Trigger immediate processing
   triggerProcessing();
 
-  return c.json({ queued: true, issueId: issue.identifier, provider }, 200);
+  return c.json({ queued: true, issueId: issue.identifier, provider, instance }, 200);
 });
 
 export { retry };
@@ -0,0 +1,221 @@
+import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
+import {
+  logger,
+  readIssueLog,
+  isValidIssueLogId,
+  subscribeToIssueLog,
+  isLevelIncluded,
+  type LogEntry,
+  type LogLevel,
+} from "../logger";
+import { isKnownProvider } from "../providers";
+import { cancelTask } from "../services/cancel";
+import { getRuns, getRunsForIssue, withTranscript } from "../services/history";
+import { getTaskHistory } from "../services/state";
+import * as queue from "../services/queue";
+import type { IssueProvider, RunFilter, RunStatus } from "../types";
+
+const tasks = new Hono();
+
+const RUN_STATUSES: RunStatus[] = ["completed", "failed", "cancelled"];
+const LOG_LEVELS: LogLevel[] = ["error", "warn", "info", "debug"];
+
+// Interval for keep-alive pings and checking whether a followed run ended
+const LOG_HEARTBEAT_MS = 15000;
+
+/**
+ * Resolve a provider issue ID or human-readable identifier to both forms
+ * Looks at active tasks first, then run history
+ */
+function resolveIssue(idOrIdentifier: string): {
+  issueId: string;
+  identifier: string;
+} {
+  const active = [...queue.getRunningTasks(), ...queue.getPendingTasks()].find(
+    (task) =>
+      task.issueId === idOrIdentifier || task.identifier === idOrIdentifier
+  );
+  if (active) {
+    return { issueId: active.issueId, identifier: active.identifier };
+  }
+
+  const [latestRun] = getRunsForIssue(idOrIdentifier);
+  if (latestRun) {
+    return { issueId: latestRun.issueId, identifier: latestRun.identifier };
+  }
+
+  return { issueId: idOrIdentifier, identifier: idOrIdentifier };
+}
+
+/**
+ * Parse an optional ISO date query parameter
+ * Returns null if the value is present but not a valid date
+ */
+function parseDate(value: string | undefined): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET /tasks - List agent run history, newest first
+ *
+ * Query parameters (all optional):
+ * - provider: a registered provider ("linear", "github", "gitlab", "jira")
+ * - repo: repository identifier as stored on the task
+ * - status: "completed" | "failed" | "cancelled"
+ * - since / until: ISO dates bounding the run start time
+ * - limit: maximum number of runs to return (default 100)
+ */
+tasks.get("/", (c) => {
+  const provider = c.req.query("provider") as IssueProvider | undefined;
+  const status = c.req.query("status") as RunStatus | undefined;
+  const since = parseDate(c.req.query("since"));
+  const until = parseDate(c.req.query("until"));
+  const limit = parseInt(c.req.query("limit") || "100", 10);
+
+  if (provider && !isKnownProvider(provider)) {
+    return c.json({ error: `Unknown provider "${provider}"` }, 400);
+  }
+  if (status && !RUN_STATUSES.includes(status)) {
+    return c.json({ error: `Unknown status "${status}"` }, 400);
+  }
+  if (since === null || until === null) {
+    return c.json({ error: "since and until must be ISO dates" }, 400);
+  }
+  if (isNaN(limit) || limit < 1) {
+    return c.json({ error: "limit must be a positive number" }, 400);
+  }
+
+  const filter: RunFilter = {
+    provider,
+    repo: c.req.query("repo"),
+    status,
+    since,
+    until,
+  };
+  const runs = getRuns(filter);
+
+  // Transcripts can be large; they are returned by GET /tasks/:issueId only.
+  // Older records still carry them inline
+  const summaries = runs
+    .slice(0, limit)
+    .map(({ transcript: _transcript, ...run }) => run);
+
+  return c.json({ total: runs.length, runs: summaries });
+});
+
+/**
+ * GET /tasks/:issueId - Current state, runs and status changes for an issue
+ *
+ * Accepts the provider issue ID or the human-readable identifier.
+ * GitHub issue IDs must be URL-encoded (e.g. owner%2Frepo%23123).
+ */
+tasks.get("/:issueId", (c) => {
+  const { issueId } = resolveIssue(c.req.param("issueId"));
+  const current = queue.getTask(issueId);
+  const runs = getRunsForIssue(issueId);
+  const events = getTaskHistory(issueId);
+
+  if (!current && runs.length === 0 && events.length === 0) {
+    return c.json({ error: "No history for this issue" }, 404);
+  }
+
+  return c.json({
+    issueId,
+    current,
+    runs: runs.map(withTranscript),
+    events,
+  });
+});
+
+/**
+ * GET /tasks/:issueId/logs - Issue log contents, optionally streamed live
+ *
+ * Query parameters (all optional):
+ * - level: most verbose level to include ("error" | "warn" | "info" | "debug", default "debug")
+ * - follow: "true" to keep streaming new entries as Server-Sent Events
+ *   (also enabled by an `Accept: text/event-stream` header)
+ *
+ * Streams send the existing log first, then each new entry as a "log" event,
+ * and an "end" event once the issue is no longer queued or running.
+ */
+tasks.get("/:issueId/logs", (c) => {
+  const { issueId, identifier } = resolveIssue(c.req.param("issueId"));
+  const level = (c.req.query("level") || "debug") as LogLevel;
+  const follow =
+    c.req.query("follow") === "true" ||
+    (c.req.header("Accept") ?? "").includes("text/event-stream");
+
+  if (!LOG_LEVELS.includes(level)) {
+    return c.json({ error: `Unknown log level "${level}"` }, 400);
+  }
+
+  // Unknown IDs are looked up as file names, which must stay in the log directory
+  if (!isValidIssueLogId(identifier)) {
+    return c.json({ error: "No log for this issue" }, 404);
+  }
+
+  const include = (entry: LogEntry) => isLevelIncluded(entry.level, level);
+  const existing = readIssueLog(identifier).filter(include);
+
+  if (!follow) {
+    if (existing.length === 0 && !queue.getTask(issueId)) {
+      return c.json({ error: "No log for this issue" }, 404);
+    }
+    return c.text(existing.map((entry) => entry.line).join("\n") + "\n");
+  }
+
+  return streamSSE(c, async (stream) => {
+    // Serialize writes so entries arrive in the order they were logged
+    let writes: Promise<void> = Promise.resolve();
+    const send = (event: string, data: string) => {
+      writes = writes.then(() => stream.writeSSE({ event, data }));
+    };
+
+    for (const entry of existing) {
+      send("log", entry.line);
+    }
+
+    const unsubscribe = subscribeToIssueLog(identifier, (entry) => {
+      if (include(entry)) {
+        send("log", entry.line);
+      }
+    });
+    stream.onAbort(unsubscribe);
+
+    while (!stream.aborted) {
+      await stream.sleep(LOG_HEARTBEAT_MS);
+      if (!queue.getTask(issueId)) {
+        break;
+      }
+      send("ping", new Date().toISOString());
+    }
+
+    unsubscribe();
+    send("end", "");
+    await writes;
+  });
+});
+
+/**
+ * DELETE /tasks/:issueId - Cancel a queued or running agent
+ *
+ * GitHub issue IDs must be URL-encoded (e.g. owner%2Frepo%23123).
+ */
+tasks.delete("/:issueId", async (c) => {
+  const { issueId } = resolveIssue(c.req.param("issueId"));
+  logger.info(`Cancellation requested for issue ${issueId}`);
+
+  const outcome = await cancelTask(issueId, "requested via the API");
+  if (outcome === "not_found") {
+    return c.json({ error: "Issue is not queued or running" }, 404);
+  }
+
+  // Running agents stop asynchronously once their Claude process exits
+  const status = outcome === "queued" ? "cancelled" : "cancelling";
+  return c.json({ status, issueId }, 200);
+});
+
+export { tasks };
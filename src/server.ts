@@ -1,30 +1,43 @@
 import { Hono } from "hono";
-import { config } from "./config";
+import { config, validateConfig } from "./config";
 import { logger } from "./logger";
 import * as queue from "./services/queue";
-import { linearWebhook } from "./providers/linear/webhook";
-import { githubWebhook } from "./providers/github/webhook";
 import { retry } from "./routes/retry";
+import { tasks } from "./routes/tasks";
 import { startProcessor } from "./services/processor";
 import { loadState } from "./services/state";
+import { recoverInterruptedTasks } from "./services/recovery";
 import { cleanupOrphanWorktrees } from "./services/git";
-import { isProviderConfigured, getConfiguredProviders } from "./providers";
+import {
+  DEFAULT_INSTANCE,
+  getConfiguredInstances,
+  getConfiguredProviders,
+  getProviderDefinitions,
+  validateProviders,
+} from "./providers";
 
 const app = new Hono();
 
-// Mount webhook routes conditionally based on configured providers
-if (isProviderConfigured("linear")) {
-  app.route("/webhook/linear", linearWebhook);
-  logger.info("Linear webhook enabled at /webhook/linear");
-}
-
-if (isProviderConfigured("github")) {
-  app.route("/webhook/github", githubWebhook);
-  logger.info("GitHub webhook enabled at /webhook/github");
+// Mount the webhook of each configured provider; the router serves the
+// default instance at /webhook/<name> and named ones at /webhook/<name>/<instance>
+for (const provider of getProviderDefinitions()) {
+  const instances = getConfiguredInstances(provider.name);
+  if (instances.length === 0) {
+    continue;
+  }
+  app.route(`/webhook/${provider.name}`, provider.webhook);
+  for (const instance of instances) {
+    const path =
+      instance === DEFAULT_INSTANCE
+        ? `/webhook/${provider.name}`
+        : `/webhook/${provider.name}/${instance}`;
+    logger.info(`${provider.displayName} webhook enabled at ${path}`);
+  }
 }
 
 // Mount other routes
 app.route("/retry", retry);
+app.route("/tasks", tasks);
 
 // Track server start time for uptime calculation
 const startTime = Date.now();
@@ -55,16 +68,23 @@ app.get("/status", (c) => {
  * Initialize the server - handle recovery and cleanup
  */
 async function initialize(): Promise<void> {
-  // Load any previously running tasks
-  const previousTasks = loadState();
-  if (previousTasks.length > 0) {
-    logger.warn(`Found ${previousTasks.length} incomplete tasks from previous run`);
-    // Restore them to the queue for processing
-    queue.restoreRunningTasks(previousTasks);
+  // Rebuild pending and running work from the task journal
+  const { pending, running } = loadState();
+  if (pending.length > 0) {
+    logger.info(`Found ${pending.length} queued tasks from previous run`);
+    queue.restorePendingTasks(pending);
+  }
+  if (running.length > 0) {
+    logger.warn(`Found ${running.length} incomplete tasks from previous run`);
+    // Re-queue, resume or fail them according to the recovery policy
+    await recoverInterruptedTasks(running);
   }
 
-  // Clean up orphan worktrees
-  await cleanupOrphanWorktrees(queue.getRunningTasks());
+  // Clean up orphan worktrees (keeping those of queued and running tasks)
+  await cleanupOrphanWorktrees([
+    ...queue.getRunningTasks(),
+    ...queue.getPendingTasks(),
+  ]);
 
   // Start the queue processor
   startProcessor();
@@ -74,6 +94,9 @@ async function initialize(): Promise<void> {
  * Start the HTTP server
  */
 export async function startServer(): Promise<void> {
+  validateConfig();
+  validateProviders();
+
   // Initialize recovery and processor
   await initialize();
 
@@ -1,63 +1,176 @@
-import { resolve } from "path";
 import { config } from "../config";
 import { logger, createIssueLogger, type IssueLogger } from "../logger";
-import type { AgentTask, AgentResult, Issue } from "../types";
-import { getClient } from "../providers";
-import { buildPrompt, buildCompletionSummary } from "./prompt-builder";
+import type {
+  AgentTask,
+  AgentResult,
+  AgentErrorKind,
+  AgentTranscript,
+  CodeHostKind,
+  Issue,
+  VerificationResult,
+  PullRequestInfo,
+} from "../types";
+import { getClient, type IssueClient } from "../providers";
+import * as queue from "./queue";
+import type { Subprocess } from "bun";
+import { createTranscriptParser, mergeTranscripts } from "./transcript";
+import {
+  buildPrompt,
+  buildCompletionSummary,
+  buildCancellationSummary,
+  buildRunReport,
+  buildVerificationFixPrompt,
+  buildNoChangesPrompt,
+  type CompletionDetails,
+} from "./prompt-builder";
+import { describeFailures, runVerification } from "./verification";
+import {
+  classifyError,
+  getAttempt,
+  getRetryDelay,
+  shouldRetry,
+} from "./retry-policy";
 import {
   createWorktree,
   hasChanges,
   commitChanges,
   pushBranch,
-  createPR,
+  removeWorktree,
+  getChangeSummary,
+  runShellCommand,
+  ensureRepository,
+  checkoutExistingBranch,
+  getHeadCommit,
+  hasUnpushedCommits,
+  discardTaskWorktree,
 } from "./git";
+import { replyToReview } from "./review";
+import {
+  openPullRequest,
+  resolvePullRequestOptions,
+  resolvePullRequestTarget,
+  getPushCredentials,
+} from "./pull-request";
+import {
+  loadRepoSettings,
+  resolveBaseBranch,
+  formatCommitMessage,
+  type ResolvedRepoSettings,
+} from "./repo-config";
+import { describeRepoSource } from "./repo-registry";
+
+/**
+ * Per-run options for the Claude process
+ */
+interface ClaudeOptions {
+  timeout: number;
+  allowedTools?: string[];
+  /** Continue an earlier Claude session instead of starting a new one */
+  resumeSessionId?: string;
+}
 
 interface ClaudeResult {
   exitCode: number;
-  stdout: string;
+  /** Last lines of stdout; the full output is parsed into the transcript */
+  stdoutTail: string;
   stderr: string;
   timedOut: boolean;
+  transcript: AgentTranscript;
+}
+
+// Lines of Claude's stdout kept for the error message of a failed run
+const STDOUT_TAIL_LINES = 20;
+
+// Claude processes for running agents, by issue ID
+const activeProcesses: Map<string, Subprocess> = new Map();
+
+// Issues with a pending cancellation request, with the reason given
+const cancelRequests: Map<string, string> = new Map();
+
+// Aborted on cancellation to kill running setup and verification commands
+const abortControllers: Map<string, AbortController> = new Map();
+
+/**
+ * Request cancellation of a running agent
+ * Kills the Claude process or setup/verification command that is running;
+ * the run stops before its next step. Returns false if no agent is running
+ * for the issue.
+ */
+export function cancelAgent(issueId: string, reason: string): boolean {
+  if (!queue.isRunning(issueId)) {
+    return false;
+  }
+
+  cancelRequests.set(issueId, reason);
+  abortControllers.get(issueId)?.abort();
+
+  const proc = activeProcesses.get(issueId);
+  if (proc) {
+    logger.info(`Killing Claude process for issue ${issueId}`, { reason });
+    proc.kill();
+  }
+
+  return true;
 }
 
 /**
  * Spawn Claude Code with a prompt in the specified directory
  */
 async function spawnClaude(
+  issueId: string,
   worktreePath: string,
   prompt: string,
-  issueLogger: IssueLogger
+  issueLogger: IssueLogger,
+  options: ClaudeOptions
 ): Promise<ClaudeResult> {
-  issueLogger.info("Spawning Claude Code");
+  issueLogger.info(
+    options.resumeSessionId
+      ? `Spawning Claude Code (resuming session ${options.resumeSessionId})`
+      : "Spawning Claude Code"
+  );
+
+  // stream-json (which requires --verbose in print mode) emits one JSON event
+  // per line, parsed into a structured transcript as it arrives
+  const args = ["claude", "-p", prompt, "--output-format", "stream-json", "--verbose"];
+  if (options.allowedTools && options.allowedTools.length > 0) {
+    args.push("--allowedTools", options.allowedTools.join(","));
+  }
+  if (options.resumeSessionId) {
+    args.push("--resume", options.resumeSessionId);
+  }
 
-  const proc = Bun.spawn(["claude", "-p", prompt], {
+  const proc = Bun.spawn(args, {
     cwd: worktreePath,
     stdout: "pipe",
     stderr: "pipe",
   });
+  activeProcesses.set(issueId, proc);
 
   // Set up timeout
   let timedOut = false;
   const timeoutId = setTimeout(() => {
     timedOut = true;
-    issueLogger.error(`Claude Code timed out after ${config.agentTimeout}ms`);
+    issueLogger.error(`Claude Code timed out after ${options.timeout}ms`);
     proc.kill();
-  }, config.agentTimeout);
+  }, options.timeout);
 
   // Stream output to log file
   const stdoutReader = proc.stdout.getReader();
   const stderrReader = proc.stderr.getReader();
 
-  let stdout = "";
+  let stdoutTail = "";
   let stderr = "";
+  const parser = createTranscriptParser(issueLogger);
 
   // Read stdout
   const readStdout = async () => {
+    const decoder = new TextDecoder();
     while (true) {
       const { done, value } = await stdoutReader.read();
       if (done) break;
-      const text = new TextDecoder().decode(value);
-      stdout += text;
-      issueLogger.debug(text.trim());
+      const text = decoder.decode(value, { stream: true });
+      stdoutTail = keepLastLines(stdoutTail + text, STDOUT_TAIL_LINES);
+      parser.push(text);
     }
   };
 
@@ -77,27 +190,52 @@ async function spawnClaude(
   // Wait for completion
   await Promise.all([readStdout(), readStderr(), proc.exited]);
   clearTimeout(timeoutId);
+  activeProcesses.delete(issueId);
 
   const exitCode = proc.exitCode ?? 1;
   issueLogger.info(`Claude Code exited with code ${exitCode}`);
 
-  return { exitCode, stdout, stderr, timedOut };
+  const transcript = parser.finish();
+  return { exitCode, stdoutTail, stderr, timedOut, transcript };
+}
+
+/**
+ * Keep only the last lines of some output
+ */
+function keepLastLines(text: string, count: number): string {
+  const lines = text.split("\n");
+  return lines.length > count ? lines.slice(-count).join("\n") : text;
 }
 
 /**
  * Run the agent for a task
  */
 export async function runAgent(task: AgentTask): Promise<AgentResult> {
+  const startedAt = Date.now();
   const issueLogger = createIssueLogger(task.identifier);
   issueLogger.info(`Starting agent for ${task.identifier}: ${task.title}`);
   issueLogger.info(`Provider: ${task.provider}`);
+  if (task.resume) {
+    issueLogger.info("Resuming interrupted run in existing worktree");
+  }
+  if (task.attempt && task.attempt > 1) {
+    issueLogger.info(
+      `Attempt ${task.attempt} of ${config.retryMaxAttempts} (previous error: ${task.lastError})`
+    );
+  }
 
   // Get the appropriate client for this task's provider
-  const client = getClient(task.provider);
+  const client = getClient(task.provider, task.instance);
+
+  const abortController = new AbortController();
+  abortControllers.set(task.issueId, abortController);
+  if (cancelRequests.has(task.issueId)) {
+    abortController.abort();
+  }
 
   try {
-    // Resolve full repo path
-    const repoPath = resolve(config.reposBasePath, task.repo);
+    // Resolve the local clone, cloning the repository on first use
+    const repoPath = await ensureRepository(task.repo);
     issueLogger.info(`Repository path: ${repoPath}`);
 
     // Fetch issue details for prompt
@@ -109,9 +247,72 @@ export async function runAgent(task: AgentTask): Promise<AgentResult> {
     // Get branch name from client (provider-specific)
     const branchName = client.getBranchName(issue);
 
-    // Create worktree
-    issueLogger.info(`Creating worktree at ${task.worktreePath}`);
-    await createWorktree(repoPath, task.worktreePath, branchName);
+    // Follow-ups on an existing PR continue its branch; otherwise pick the
+    // branch to work from and open the PR against
+    const existingPr = getExistingPullRequest(task);
+    let baseBranch: string;
+    if (existingPr) {
+      baseBranch = existingPr.baseBranch;
+    } else {
+      const base = await resolveBaseBranch(issue, task.repo, repoPath, issueLogger);
+      baseBranch = base.branch;
+      issueLogger.info(`Base branch: ${baseBranch} (from ${base.source})`);
+    }
+
+    // A retry keeps the previous attempt's worktree only to push the commit
+    // it left behind; anything else is discarded so the attempt starts clean
+    let pendingPush = false;
+    if (getAttempt(task) > 1 && !task.resume) {
+      const upstream = `origin/${existingPr ? branchName : baseBranch}`;
+      pendingPush = await hasUnpushedCommits(task.worktreePath, upstream);
+      if (!pendingPush) {
+        await discardTaskWorktree(task);
+      }
+    }
+
+    if (existingPr) {
+      issueLogger.info(`Continuing the branch of ${existingPr.url}`);
+      await checkoutExistingBranch(repoPath, task.worktreePath, branchName);
+    } else {
+      issueLogger.info(`Creating worktree at ${task.worktreePath}`);
+      await createWorktree(
+        repoPath,
+        task.worktreePath,
+        branchName,
+        baseBranch,
+        task.resume || pendingPush
+      );
+    }
+
+    // Per-repository settings come from the base branch
+    const settings = await loadRepoSettings(task.repo, repoPath, issueLogger, baseBranch);
+    issueLogger.debug("Repository settings", { ...settings });
+    const publish: PublishContext = {
+      task,
+      client,
+      issue,
+      settings,
+      issueLogger,
+      branchName,
+      baseBranch,
+      existingPr,
+      startedAt,
+    };
+
+    if (pendingPush) {
+      issueLogger.info("Pushing the commit left by the previous attempt");
+      return await publishChanges(publish, { draft: settings.prDraft });
+    }
+
+    await runSetupCommands(
+      task.worktreePath,
+      settings,
+      issueLogger,
+      abortController.signal
+    );
+    if (cancelRequests.has(task.issueId)) {
+      return await handleCancellation(task, client, issueLogger);
+    }
 
     // Update status to In Progress
     try {
@@ -121,140 +322,613 @@ export async function runAgent(task: AgentTask): Promise<AgentResult> {
     }
 
     // Add starting comment
+    let startMessage = task.review
+      ? `The agent is addressing review feedback on ${task.review.prUrl}.`
+      : task.mention
+        ? `The agent is following up on the comment from ${task.mention.author}.`
+        : task.resume
+        ? "The agent is resuming interrupted work on this issue."
+        : "The agent has started working on this issue.";
+    if (getAttempt(task) > 1) {
+      startMessage += ` (attempt ${getAttempt(task)} of ${config.retryMaxAttempts})`;
+    }
+    // Linear repositories can come from several places; say which was used
+    let repoLine = "";
+    if (task.repoSource) {
+      const source = describeRepoSource(task.repoSource);
+      issueLogger.info(`Repository ${task.repo} ${source}`);
+      repoLine = `Repository: \`${task.repo}\` (${source})\n`;
+    }
     try {
       await client.addComment(
         task.issueId,
-        `## Agent Started\n\nThe agent has started working on this issue.\n\nBranch: \`${branchName}\`\nLog: \`${issueLogger.getLogPath()}\``
+        `## Agent Started\n\n${startMessage}\n\n${repoLine}Branch: \`${branchName}\` (from \`${baseBranch}\`)\nLog: \`${issueLogger.getLogPath()}\``
       );
     } catch (e) {
       issueLogger.warn(`Failed to add starting comment: ${e}`);
     }
 
     // Build prompt and run Claude
-    const prompt = buildPrompt(issue, task.repo, branchName);
+    const prompt = buildPrompt(issue, task.repo, branchName, {
+      resume: task.resume,
+      extraInstructions: settings.promptInstructions,
+      review: task.review,
+      mention: task.mention,
+    });
     issueLogger.debug("Built prompt for Claude");
 
+    if (cancelRequests.has(task.issueId)) {
+      return await handleCancellation(task, client, issueLogger);
+    }
+
     const claudeResult = await spawnClaude(
+      task.issueId,
       task.worktreePath,
       prompt,
-      issueLogger
+      issueLogger,
+      { timeout: settings.agentTimeout, allowedTools: settings.allowedTools }
     );
 
+    if (cancelRequests.has(task.issueId)) {
+      return await handleCancellation(task, client, issueLogger);
+    }
+
     if (claudeResult.timedOut) {
-      const errorMessage = `Agent timed out after ${config.agentTimeout / 60000} minutes`;
-      await handleFailure(task, client, issueLogger, errorMessage, branchName);
+      const errorMessage = `Agent timed out after ${settings.agentTimeout / 60000} minutes`;
+      await handleFailure(task, client, issueLogger, errorMessage, branchName, "timeout");
       return {
         success: false,
         error: errorMessage,
+        branchName,
+        baseBranch,
+        exitCode: claudeResult.exitCode,
+        transcript: claudeResult.transcript,
         hasChanges: false,
+        errorKind: "timeout",
       };
     }
 
     if (claudeResult.exitCode !== 0) {
-      const errorMessage = `Claude exited with code ${claudeResult.exitCode}: ${claudeResult.stderr || claudeResult.stdout}`;
-      await handleFailure(task, client, issueLogger, errorMessage, branchName);
+      const output =
+        claudeResult.stderr || claudeResult.transcript.result || claudeResult.stdoutTail;
+      const errorMessage = `Claude exited with code ${claudeResult.exitCode}: ${output}`;
+      await handleFailure(task, client, issueLogger, errorMessage, branchName, "claude_exit");
       return {
         success: false,
         error: errorMessage,
+        branchName,
+        baseBranch,
+        exitCode: claudeResult.exitCode,
+        transcript: claudeResult.transcript,
         hasChanges: false,
+        errorKind: "claude_exit",
       };
     }
 
-    // Check for changes
-    const hasCodeChanges = await hasChanges(task.worktreePath);
-    issueLogger.info(`Has changes: ${hasCodeChanges}`);
+    // Check the result, sending Claude back to work (resuming its session)
+    // while there is something to fix and iterations remain
+    let transcript = claudeResult.transcript;
+    let hasCodeChanges = false;
+    let verification: VerificationResult | undefined;
+    let fixAttempted = false;
+    let sessionBroken = false;
+    let iteration = 1;
+    // The fix policy always allows at least one follow-up session
+    const maxIterations =
+      settings.verificationPolicy === "fix"
+        ? Math.max(settings.maxIterations, 2)
+        : settings.maxIterations;
+
+    while (true) {
+      hasCodeChanges = await hasChanges(task.worktreePath);
+      issueLogger.info(`Has changes: ${hasCodeChanges}`);
+
+      let followUp: { reason: string; prompt: string } | null = null;
+      // Resumed sessions already have the issue context
+      const basePrompt = transcript.sessionId ? undefined : prompt;
+
+      if (!hasCodeChanges) {
+        if (settings.maxIterations > 1) {
+          followUp = {
+            reason: "no changes were made",
+            prompt: buildNoChangesPrompt(basePrompt),
+          };
+        }
+      } else if (settings.verifyCommands.length > 0) {
+        verification = await runVerification(
+          task.worktreePath,
+          settings.verifyCommands,
+          settings.commandTimeout,
+          issueLogger,
+          abortController.signal
+        );
+        if (cancelRequests.has(task.issueId)) {
+          return await handleCancellation(task, client, issueLogger);
+        }
+        if (fixAttempted) {
+          verification.fixAttempted = true;
+        }
+        if (!verification.passed && settings.verificationPolicy === "fix") {
+          followUp = {
+            reason: `verification failed: ${describeFailures(verification)}`,
+            prompt: buildVerificationFixPrompt(verification, basePrompt),
+          };
+        }
+      }
+
+      if (!followUp || sessionBroken) {
+        break;
+      }
+      if (iteration >= maxIterations) {
+        issueLogger.warn(`Iteration limit of ${maxIterations} reached`, {
+          reason: followUp.reason,
+        });
+        break;
+      }
+
+      iteration++;
+      fixAttempted ||= hasCodeChanges;
+      issueLogger.info(`Starting iteration ${iteration} of ${maxIterations}`, {
+        reason: followUp.reason,
+        resumeSessionId: transcript.sessionId,
+      });
+
+      const followUpResult = await spawnClaude(
+        task.issueId,
+        task.worktreePath,
+        followUp.prompt,
+        issueLogger,
+        {
+          timeout: settings.agentTimeout,
+          allowedTools: settings.allowedTools,
+          resumeSessionId: transcript.sessionId,
+        }
+      );
+
+      if (cancelRequests.has(task.issueId)) {
+        return await handleCancellation(task, client, issueLogger);
+      }
+
+      transcript = mergeTranscripts(transcript, followUpResult.transcript);
+      issueLogger.info(`Iteration ${iteration} finished`, {
+        exitCode: followUpResult.exitCode,
+        timedOut: followUpResult.timedOut,
+      });
+
+      // Don't keep going after a broken session; check what it left once more
+      if (followUpResult.timedOut || followUpResult.exitCode !== 0) {
+        issueLogger.warn("Follow-up session ended early, stopping iterations");
+        sessionBroken = true;
+      }
+    }
 
     if (!hasCodeChanges) {
       // No changes - still a success, just nothing to commit
-      const summary = buildCompletionSummary(false, branchName);
+      const summary = buildCompletionSummary(false, branchName, null, undefined, {
+        agentSummary: transcript.result,
+        durationMs: Date.now() - startedAt,
+        iterations: iteration,
+      });
       await client.addComment(task.issueId, summary);
       await client.updateStatus(task.issueId, "review");
+      if (task.review) {
+        await replyToReview(task.review, { agentSummary: transcript.result }, issueLogger);
+      }
 
       return {
         success: true,
         branchName,
+        baseBranch,
+        exitCode: claudeResult.exitCode,
+        transcript,
+        prUrl: existingPr?.url,
         hasChanges: false,
-        summary: "No code changes were made",
+        iterations: iteration,
+        summary: transcript.result ?? "No code changes were made",
       };
     }
 
-    // Commit and push
-    const commitMessage = `feat: ${task.title}`;
-    await commitChanges(task.worktreePath, commitMessage);
-    issueLogger.info("Committed changes");
-
-    await pushBranch(task.worktreePath, branchName);
-    issueLogger.info("Pushed to origin");
-
-    // Create PR
-    const prBody = buildPRBody(task, issue);
-    const prUrl = await createPR(
-      task.worktreePath,
-      `${task.identifier}: ${task.title}`,
-      prBody
-    );
+    // Failing checks either fail the run or make the PR a draft
+    let draft = settings.prDraft;
+    if (verification && !verification.passed) {
+      if (settings.verificationPolicy === "draft") {
+        issueLogger.warn("Verification failed, the PR will be opened as a draft");
+        draft = true;
+      } else {
+        const errorMessage = `Verification failed: ${describeFailures(verification)}`;
+        issueLogger.error(errorMessage);
+        await handleFailure(
+          task,
+          client,
+          issueLogger,
+          errorMessage,
+          branchName,
+          "verification",
+          { verification }
+        );
+        return {
+          success: false,
+          error: errorMessage,
+          branchName,
+          baseBranch,
+          exitCode: claudeResult.exitCode,
+          transcript,
+          hasChanges: true,
+          verification,
+          iterations: iteration,
+          errorKind: "verification",
+        };
+      }
+    }
 
-    // Update issue with completion
-    try {
-      const summary = buildCompletionSummary(true, branchName, prUrl);
-      await client.addComment(task.issueId, summary);
-      await client.updateStatus(task.issueId, "review");
-    } catch (e) {
-      issueLogger.warn(`Failed to update issue on completion: ${e}`);
+    if (cancelRequests.has(task.issueId)) {
+      return await handleCancellation(task, client, issueLogger);
     }
 
-    issueLogger.info("Agent completed successfully");
+    // Commit and push
+    const commitMessage = formatCommitMessage(settings.commitMessageFormat, {
+      identifier: task.identifier,
+      title: task.title,
+      branch: branchName,
+    });
+    await commitChanges(task.worktreePath, commitMessage);
+    issueLogger.info("Committed changes");
 
-    return {
-      success: true,
-      branchName,
-      prUrl: prUrl ?? undefined,
-      hasChanges: true,
-      summary: `Created branch ${branchName}${prUrl ? ` and PR ${prUrl}` : ""}`,
-    };
+    return await publishChanges(publish, {
+      transcript,
+      exitCode: claudeResult.exitCode,
+      verification,
+      iterations: iteration,
+      draft,
+    });
   } catch (e) {
     const errorMessage = e instanceof Error ? e.message : String(e);
-    issueLogger.error(`Agent failed: ${errorMessage}`);
-    await handleFailure(task, client, issueLogger, errorMessage, task.identifier);
+    const errorKind = classifyError(errorMessage);
+    issueLogger.error(`Agent failed: ${errorMessage}`, { errorKind });
+    await handleFailure(task, client, issueLogger, errorMessage, task.identifier, errorKind);
 
     return {
       success: false,
       error: errorMessage,
       hasChanges: false,
+      errorKind,
     };
+  } finally {
+    cancelRequests.delete(task.issueId);
+    abortControllers.delete(task.issueId);
   }
 }
 
 /**
- * Build PR body based on provider
+ * What a run needs to push its branch and open or update the PR
  */
-function buildPRBody(task: AgentTask, issue: Issue): string {
-  const issueLink =
-    task.provider === "linear"
-      ? `[${task.identifier}](https://linear.app/issue/${task.identifier})`
-      : `#${issue.identifier.split("#").pop()}`; // GitHub uses #123 format
+interface PublishContext {
+  task: AgentTask;
+  client: IssueClient;
+  issue: Issue;
+  settings: ResolvedRepoSettings;
+  issueLogger: IssueLogger;
+  branchName: string;
+  baseBranch: string;
+  existingPr: { url: string; baseBranch: string } | null;
+  startedAt: number;
+}
 
-  return `## Summary
+/**
+ * Push the committed work, open the PR (or answer the review on the existing
+ * one) and report completion on the issue
+ */
+async function publishChanges(
+  context: PublishContext,
+  outcome: {
+    transcript?: AgentTranscript;
+    exitCode?: number;
+    verification?: VerificationResult;
+    iterations?: number;
+    draft: boolean;
+  }
+): Promise<AgentResult> {
+  const { task, client, issue, settings, issueLogger, branchName, baseBranch, existingPr } =
+    context;
+  const { transcript, exitCode, verification, iterations, draft } = outcome;
+
+  // The code host may supply credentials for the push, e.g. a GitHub App
+  // installation token
+  const target = await resolvePullRequestTarget(
+    task,
+    settings,
+    issueLogger
+  );
+  const credentials = target
+    ? await getPushCredentials(target, issueLogger)
+    : null;
+  // Nothing has left the machine yet, so a cancellation can still stop it
+  if (cancelRequests.has(task.issueId)) {
+    return await handleCancellation(task, client, issueLogger);
+  }
+  // A fresh run replaces whatever an earlier, closed or merged PR left on
+  // the branch
+  await pushBranch(task.worktreePath, branchName, credentials ?? undefined, !existingPr);
+  issueLogger.info("Pushed to origin");
+
+  // Gather what changed for the PR body and completion comment
+  const changes = await getChangeSummary(
+    task.worktreePath,
+    baseBranch
+  ).catch((e) => {
+    issueLogger.warn(`Failed to summarize changes: ${e}`);
+    return undefined;
+  });
+  const details: CompletionDetails = {
+    agentSummary: transcript?.result,
+    changes,
+    durationMs: Date.now() - context.startedAt,
+    verification,
+    draft: !existingPr && draft,
+    iterations,
+  };
+
+  // Create PR, or keep the existing one and answer any review on it
+  let prUrl: string | null;
+  let pullRequest: PullRequestInfo | undefined;
+  if (existingPr) {
+    prUrl = existingPr.url;
+    if (task.review) {
+      const commitSha = await getHeadCommit(task.worktreePath);
+      await replyToReview(
+        task.review,
+        { commitSha, agentSummary: transcript?.result },
+        issueLogger
+      );
+    }
+  } else {
+    const prTitle = `${task.identifier}: ${task.title}`;
+    const prOptions = await resolvePullRequestOptions(
+      task,
+      issue,
+      settings,
+      baseBranch,
+      issueLogger
+    );
+    const opened = target
+      ? await openPullRequest(
+          target,
+          {
+            title: prTitle,
+            body: buildPRBody(task, issue, details, settings.prLinkIssue, target.host.host),
+            head: branchName,
+            base: baseBranch,
+          },
+          { ...prOptions, draft },
+          issueLogger
+        )
+      : null;
+    prUrl = opened?.url ?? null;
+
+    if (prUrl && opened && target) {
+      pullRequest = {
+        url: prUrl,
+        host: target.host.host,
+        draft: opened.draft,
+        ...prOptions,
+      };
+      if (settings.prLinkIssue) {
+        if (client.linkPullRequest) {
+          try {
+            await client.linkPullRequest(task.issueId, prUrl, prTitle);
+            pullRequest.linkedIssue = task.identifier;
+          } catch (e) {
+            issueLogger.warn(`Failed to link pull request to issue: ${e}`);
+          }
+        } else if (target.host.host === task.provider) {
+          // Linked by the "Closes" keyword in the body
+          pullRequest.linkedIssue = task.identifier;
+        }
+      }
+    }
+  }
 
-Automatically generated by Issue Agent for ${issueLink}.
+  // Update issue with completion
+  try {
+    const summary = buildCompletionSummary(true, branchName, prUrl, undefined, details);
+    await client.addComment(task.issueId, summary);
+    await client.updateStatus(task.issueId, "review");
+  } catch (e) {
+    issueLogger.warn(`Failed to update issue on completion: ${e}`);
+  }
 
----
+  issueLogger.info("Agent completed successfully");
+
+  return {
+    success: true,
+    branchName,
+    baseBranch,
+    exitCode,
+    transcript,
+    prUrl: prUrl ?? undefined,
+    hasChanges: true,
+    changes,
+    verification,
+    pullRequest,
+    iterations,
+    summary:
+      transcript?.result ??
+      `Created branch ${branchName}${prUrl ? ` and PR ${prUrl}` : ""}`,
+  };
+}
 
-*This PR was created by an AI agent. Please review carefully.*`;
+/**
+ * Get the pull request a follow-up run should keep working on, if any
+ */
+function getExistingPullRequest(
+  task: AgentTask
+): { url: string; baseBranch: string } | null {
+  if (task.review) {
+    return { url: task.review.prUrl, baseBranch: task.review.baseBranch };
+  }
+  if (task.mention?.prUrl && task.mention.baseBranch) {
+    return { url: task.mention.prUrl, baseBranch: task.mention.baseBranch };
+  }
+  return null;
 }
 
 /**
- * Handle agent failure - update issue with error
+ * Run the repository's setup commands in a fresh worktree
+ * Any failing or timed-out command aborts the run. Aborting the signal kills
+ * the running command and skips the rest.
+ */
+async function runSetupCommands(
+  worktreePath: string,
+  settings: ResolvedRepoSettings,
+  issueLogger: IssueLogger,
+  signal: AbortSignal
+): Promise<void> {
+  for (const command of settings.setupCommands) {
+    issueLogger.info(`Running setup command: ${command}`);
+    const result = await runShellCommand(command, worktreePath, {
+      timeout: settings.commandTimeout,
+      signal,
+    });
+    if (result.aborted) {
+      issueLogger.info(`Setup stopped: ${command}`);
+      return;
+    }
+    if (result.stdout.trim()) {
+      issueLogger.debug(result.stdout.trim());
+    }
+    if (result.timedOut) {
+      throw new Error(
+        `Setup command "${command}" timed out after ${settings.commandTimeout / 1000}s`
+      );
+    }
+    if (result.exitCode !== 0) {
+      throw new Error(
+        `Setup command "${command}" failed with code ${result.exitCode}: ${result.stderr || result.stdout}`
+      );
+    }
+  }
+}
+
+/**
+ * Build PR body based on provider and code host
+ */
+function buildPRBody(
+  task: AgentTask,
+  issue: Issue,
+  details: CompletionDetails,
+  linkIssue: boolean,
+  host: CodeHostKind
+): string {
+  let issueLink: string;
+  if (task.provider === "github" && host === "github") {
+    issueLink = `#${issue.identifier.split("#").pop()}`; // GitHub uses #123 format
+  } else if (task.provider === "gitlab" && host === "gitlab") {
+    issueLink = issue.identifier; // GitLab renders group/project#123 references
+  } else {
+    // Link to the issue in its provider's UI
+    issueLink = issue.url ? `[${issue.identifier}](${issue.url})` : issue.identifier;
+  }
+
+  const sections: string[] = [];
+  sections.push("## Summary");
+  sections.push("");
+  sections.push(`Automatically generated by Issue Agent for ${issueLink}.`);
+  sections.push("");
+  // The code host closes its own issues when the PR merges; Linear and Jira
+  // issues get an attachment or remote link
+  if (linkIssue && task.provider === host) {
+    sections.push(`Closes ${issue.identifier}`);
+    sections.push("");
+  }
+  sections.push(...buildRunReport(details));
+  sections.push("---");
+  sections.push("");
+  sections.push("*This PR was created by an AI agent. Please review carefully.*");
+
+  return sections.join("\n");
+}
+
+/**
+ * Handle a cancelled run - clean up per config and let the issue know
+ */
+async function handleCancellation(
+  task: AgentTask,
+  client: ReturnType<typeof getClient>,
+  issueLogger: IssueLogger
+): Promise<AgentResult> {
+  const reason = cancelRequests.get(task.issueId) ?? "cancelled";
+  issueLogger.warn(`Agent cancelled: ${reason}`);
+
+  const worktreeRemoved = await cleanupCancelledWorktree(task, issueLogger);
+
+  try {
+    await client.addComment(
+      task.issueId,
+      buildCancellationSummary(reason, worktreeRemoved)
+    );
+  } catch (e) {
+    issueLogger.error(`Failed to add cancellation comment to issue: ${e}`);
+  }
+
+  return {
+    success: false,
+    error: `Cancelled: ${reason}`,
+    hasChanges: false,
+    cancelled: true,
+  };
+}
+
+/**
+ * Remove a cancelled task's worktree if configured to
+ * Returns true if the worktree was removed
+ */
+export async function cleanupCancelledWorktree(
+  task: AgentTask,
+  issueLogger?: IssueLogger
+): Promise<boolean> {
+  if (!config.removeWorktreeOnCancel) {
+    return false;
+  }
+
+  try {
+    await removeWorktree(task.worktreePath);
+    return true;
+  } catch (e) {
+    (issueLogger ?? logger).warn(`Failed to remove cancelled worktree: ${e}`);
+    return false;
+  }
+}
+
+/**
+ * Handle agent failure - update issue with error and retry status
  */
 async function handleFailure(
   task: AgentTask,
   client: ReturnType<typeof getClient>,
   issueLogger: IssueLogger,
   error: string,
-  branchName: string
+  branchName: string,
+  errorKind: AgentErrorKind,
+  details: CompletionDetails = {}
 ): Promise<void> {
+  const willRetry = shouldRetry(task, errorKind);
+  if (willRetry) {
+    issueLogger.info(`Failure is retryable (${errorKind}), another attempt will be scheduled`);
+  }
+
   try {
-    const summary = buildCompletionSummary(false, branchName, null, error);
+    const attemptInfo =
+      config.retryMaxAttempts > 1
+        ? {
+            attempt: getAttempt(task),
+            maxAttempts: config.retryMaxAttempts,
+            retryInMs: willRetry ? getRetryDelay(task) : undefined,
+          }
+        : undefined;
+    const summary = buildCompletionSummary(false, branchName, null, error, {
+      ...details,
+      attempt: attemptInfo,
+    });
     await client.addComment(task.issueId, summary);
   } catch (e) {
     issueLogger.error(`Failed to add error comment to issue: ${e}`);
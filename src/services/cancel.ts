@@ -0,0 +1,48 @@
+import { logger } from "../logger";
+import { getClient } from "../providers";
+import * as queue from "./queue";
+import { cancelAgent, cleanupCancelledWorktree } from "./agent-runner";
+import { buildCancellationSummary } from "./prompt-builder";
+
+/**
+ * Where the task was when it was cancelled
+ */
+export type CancelOutcome = "queued" | "running" | "not_found";
+
+/**
+ * Cancel a queued or running agent task
+ *
+ * Queued tasks are removed immediately and the issue is notified here.
+ * Running tasks have their Claude process or shell command killed; the agent
+ * runner posts the comment and cleans up once the run has stopped.
+ */
+export async function cancelTask(
+  issueId: string,
+  reason: string
+): Promise<CancelOutcome> {
+  const queued = queue.removeQueued(issueId);
+  if (queued) {
+    logger.info(`Cancelled queued task for ${queued.identifier}`, { reason });
+
+    const worktreeRemoved = await cleanupCancelledWorktree(queued);
+    try {
+      const client = getClient(queued.provider, queued.instance);
+      await client.addComment(
+        queued.issueId,
+        buildCancellationSummary(reason, worktreeRemoved)
+      );
+    } catch (e) {
+      logger.error(`Failed to add cancellation comment to ${queued.identifier}`, {
+        error: String(e),
+      });
+    }
+    return "queued";
+  }
+
+  if (cancelAgent(issueId, reason)) {
+    logger.info(`Cancellation requested for running task ${issueId}`, { reason });
+    return "running";
+  }
+
+  return "not_found";
+}
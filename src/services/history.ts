@@ -0,0 +1,182 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+} from "fs";
+import { resolve } from "path";
+import { randomUUID } from "crypto";
+import { logger, getIssueLogPath } from "../logger";
+import type {
+  AgentResult,
+  AgentTask,
+  AgentTranscript,
+  RunFilter,
+  RunRecord,
+  RunStatus,
+} from "../types";
+
+const HISTORY_FILE = resolve(process.cwd(), "runs.jsonl");
+const TRANSCRIPTS_DIR = resolve(process.cwd(), "transcripts");
+
+/**
+ * Determine the final status of a run from its result
+ */
+function getRunStatus(result: AgentResult): RunStatus {
+  if (result.success) return "completed";
+  if (result.cancelled) return "cancelled";
+  return "failed";
+}
+
+/**
+ * Write a run's transcript to its own file, returning the file path
+ */
+function saveTranscript(
+  runId: string,
+  transcript: AgentTranscript
+): string | undefined {
+  const transcriptFile = resolve(TRANSCRIPTS_DIR, `${runId}.json`);
+  try {
+    mkdirSync(TRANSCRIPTS_DIR, { recursive: true });
+    writeFileSync(transcriptFile, JSON.stringify(transcript), "utf-8");
+    return transcriptFile;
+  } catch (e) {
+    logger.error("Failed to save run transcript", { runId, error: String(e) });
+    return undefined;
+  }
+}
+
+/**
+ * Append a record of a finished agent run to the history file
+ * The transcript is stored in a separate file so the history stays small
+ */
+export function recordRun(
+  task: AgentTask,
+  result: AgentResult,
+  startedAt: Date
+): RunRecord {
+  const endedAt = new Date();
+  const runId = randomUUID();
+  const record: RunRecord = {
+    runId,
+    issueId: task.issueId,
+    identifier: task.identifier,
+    title: task.title,
+    provider: task.provider,
+    instance: task.instance,
+    repo: task.repo,
+    branchName: result.branchName,
+    baseBranch: result.baseBranch,
+    status: getRunStatus(result),
+    attempt: task.attempt ?? 1,
+    startedAt: startedAt.toISOString(),
+    endedAt: endedAt.toISOString(),
+    durationMs: endedAt.getTime() - startedAt.getTime(),
+    exitCode: result.exitCode,
+    success: result.success,
+    error: result.error,
+    errorKind: result.errorKind,
+    hasChanges: result.hasChanges,
+    summary: result.summary,
+    prUrl: result.prUrl,
+    logPath: getIssueLogPath(task.identifier),
+    transcriptFile: result.transcript
+      ? saveTranscript(runId, result.transcript)
+      : undefined,
+    verification: result.verification,
+    iterations: result.iterations,
+    pullRequest: result.pullRequest,
+  };
+
+  try {
+    appendFileSync(HISTORY_FILE, JSON.stringify(record) + "\n", "utf-8");
+    logger.debug("Run recorded", { issueId: task.identifier, runId: record.runId });
+  } catch (e) {
+    logger.error("Failed to record run", {
+      issueId: task.identifier,
+      error: String(e),
+    });
+  }
+
+  return record;
+}
+
+/**
+ * Read all run records, oldest first
+ * Skips lines that cannot be parsed (e.g. a partial write during a crash)
+ */
+function readRuns(): RunRecord[] {
+  if (!existsSync(HISTORY_FILE)) {
+    return [];
+  }
+
+  const runs: RunRecord[] = [];
+  const lines = readFileSync(HISTORY_FILE, "utf-8").split("\n");
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      runs.push(JSON.parse(line) as RunRecord);
+    } catch {
+      logger.warn("Skipping unreadable run record", { entry: line.slice(0, 200) });
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Load a run's transcript from its file
+ * Older records that stored the transcript inline are returned as they are
+ */
+export function withTranscript(run: RunRecord): RunRecord {
+  if (run.transcript || !run.transcriptFile) {
+    return run;
+  }
+
+  try {
+    const transcript = JSON.parse(
+      readFileSync(run.transcriptFile, "utf-8")
+    ) as AgentTranscript;
+    return { ...run, transcript };
+  } catch (e) {
+    logger.warn("Could not read run transcript", {
+      runId: run.runId,
+      error: String(e),
+    });
+    return run;
+  }
+}
+
+/**
+ * Query run history, newest first
+ */
+export function getRuns(filter: RunFilter = {}): RunRecord[] {
+  return readRuns()
+    .filter((run) => {
+      if (filter.provider && run.provider !== filter.provider) return false;
+      if (filter.repo && run.repo !== filter.repo) return false;
+      if (filter.status && run.status !== filter.status) return false;
+      if (filter.since && new Date(run.startedAt) < filter.since) return false;
+      if (filter.until && new Date(run.startedAt) > filter.until) return false;
+      return true;
+    })
+    .reverse();
+}
+
+/**
+ * Find the most recent run that opened (or updated) a pull request
+ */
+export function findRunForPullRequest(prUrl: string): RunRecord | null {
+  return getRuns().find((run) => run.prUrl === prUrl) ?? null;
+}
+
+/**
+ * Get all runs for an issue, matched by issue ID or identifier, newest first
+ */
+export function getRunsForIssue(issueId: string): RunRecord[] {
+  return getRuns().filter(
+    (run) => run.issueId === issueId || run.identifier === issueId
+  );
+}
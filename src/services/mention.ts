@@ -0,0 +1,109 @@
+import { config } from "../config";
+import { logger } from "../logger";
+import type { AgentTask, CodeHostKind, MentionFollowUp } from "../types";
+import { getCodeHost, getCodeHostInstance } from "../providers";
+import { getRunsForIssue } from "./history";
+import { discardTaskWorktree } from "./git";
+import * as queue from "./queue";
+
+/**
+ * Check whether a comment mentions the agent
+ * The mention must stand on its own, so "@agent" doesn't match "@agents"
+ */
+export function containsMention(body: string): boolean {
+  const escaped = config.agentMention.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\w@])${escaped}(?![\\w-])`, "i").test(body);
+}
+
+/**
+ * Check whether the PR of an earlier run is still open on its code host
+ * PRs whose state can't be checked are assumed to be open
+ */
+async function isPullRequestOpen(
+  task: AgentTask,
+  prUrl: string,
+  host?: CodeHostKind
+): Promise<boolean> {
+  // Runs recorded before PRs kept their host could be on either
+  const hosts: CodeHostKind[] = host ? [host] : ["github", "gitlab"];
+
+  for (const kind of hosts) {
+    try {
+      const codeHost = getCodeHost(kind, getCodeHostInstance(kind, task));
+      const ref = codeHost.parsePullRequestUrl(prUrl);
+      if (!ref) continue;
+      const pr = await codeHost.getPullRequest(ref.project, ref.number);
+      return pr.open;
+    } catch (e) {
+      logger.warn(`Could not check the state of ${prUrl}`, {
+        issueId: task.identifier,
+        error: String(e),
+      });
+      return true;
+    }
+  }
+
+  logger.warn(`Could not check the state of ${prUrl}: not on a configured code host`, {
+    issueId: task.identifier,
+  });
+  return true;
+}
+
+/**
+ * Queue a follow-up run for a comment mentioning the agent
+ * If an earlier run opened a PR that is still open, the follow-up continues
+ * its branch; once it is merged or closed, the follow-up starts over from
+ * the base branch in a fresh worktree. A newer mention replaces the
+ * instruction of a follow-up that is still queued; mentions while the agent
+ * is running are not picked up.
+ */
+export async function enqueueMentionFollowUp(
+  task: AgentTask,
+  comment: { id: string; author: string; body: string }
+): Promise<"enqueued" | "updated" | "already_running"> {
+  if (queue.isRunning(task.issueId)) {
+    logger.warn("Mention arrived while the agent is running, ignoring", {
+      issueId: task.identifier,
+      commentId: comment.id,
+    });
+    return "already_running";
+  }
+
+  let previous = getRunsForIssue(task.issueId).find((run) => run.prUrl);
+  if (previous?.prUrl && !(await isPullRequestOpen(task, previous.prUrl, previous.pullRequest?.host))) {
+    if (queue.isRunning(task.issueId)) {
+      return "already_running";
+    }
+    logger.info(`${previous.prUrl} is no longer open, starting a fresh run`, {
+      issueId: task.identifier,
+    });
+    previous = undefined;
+    // A queued run may still need its worktree, e.g. a retry with a commit to push
+    if (!queue.isQueued(task.issueId)) {
+      await discardTaskWorktree(task);
+    }
+  }
+
+  const mention: MentionFollowUp = {
+    commentId: comment.id,
+    author: comment.author,
+    body: comment.body,
+    prUrl: previous?.prUrl,
+    baseBranch: previous?.baseBranch,
+  };
+
+  if (queue.isQueued(task.issueId)) {
+    queue.updateQueued(task.issueId, { mention });
+    logger.info("Replaced instruction of queued follow-up", {
+      issueId: task.identifier,
+    });
+    return "updated";
+  }
+
+  queue.addTask({ ...task, mention });
+  logger.info("Mention follow-up enqueued", {
+    issueId: task.identifier,
+    prUrl: mention.prUrl,
+  });
+  return "enqueued";
+}
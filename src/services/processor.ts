@@ -1,7 +1,8 @@
 import { logger } from "../logger";
 import * as queue from "./queue";
 import { runAgent } from "./agent-runner";
-import { saveState } from "./state";
+import { shouldRetry, getRetryDelay } from "./retry-policy";
+import { recordRun } from "./history";
 
 let isProcessing = false;
 
@@ -18,30 +19,33 @@ async function processNext(): Promise<void> {
   // Get next task
   const task = queue.getNext();
   if (!task) {
-    logger.debug("Queue is empty");
+    logger.debug("No tasks ready to run");
     return;
   }
 
-  // Mark as running and save state
+  // Mark as running (recorded in the journal)
   queue.markRunning(task);
-  await saveState(queue.getRunningTasks());
+  const startedAt = new Date();
 
   try {
     // Run the agent
     const result = await runAgent(task);
+    recordRun(task, result, startedAt);
 
     if (result.success) {
       queue.markComplete(task.issueId);
+    } else if (result.cancelled) {
+      queue.markCancelled(task.issueId);
+    } else if (shouldRetry(task, result.errorKind)) {
+      queue.scheduleRetry(task.issueId, getRetryDelay(task), result.error);
     } else {
       queue.markFailed(task.issueId, result.error);
     }
   } catch (e) {
     const error = e instanceof Error ? e.message : String(e);
     logger.error(`Unexpected error running agent`, { error, issueId: task.identifier });
+    recordRun(task, { success: false, error, hasChanges: false }, startedAt);
     queue.markFailed(task.issueId, error);
-  } finally {
-    // Update state after completion
-    await saveState(queue.getRunningTasks());
   }
 
   // Check for more work
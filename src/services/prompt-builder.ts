@@ -1,4 +1,25 @@
-import type { Issue } from "../types";
+import type {
+  ChangeSummary,
+  Issue,
+  MentionFollowUp,
+  ReviewFollowUp,
+  VerificationCheck,
+  VerificationResult,
+} from "../types";
+
+/**
+ * Optional extras that change how the prompt is framed
+ */
+export interface PromptOptions {
+  /** A previous run was interrupted and left work in the worktree */
+  resume?: boolean;
+  /** Repository-specific rules from its agent settings */
+  extraInstructions?: string[];
+  /** Review feedback on the agent's existing pull request */
+  review?: ReviewFollowUp;
+  /** Comment mentioning the agent, highlighted as its latest instruction */
+  mention?: MentionFollowUp;
+}
 
 /**
  * Build a prompt for Claude Code from issue context
@@ -7,7 +28,8 @@ import type { Issue } from "../types";
 export function buildPrompt(
   issue: Issue,
   repo: string,
-  branch: string
+  branch: string,
+  options: PromptOptions = {}
 ): string {
   const sections: string[] = [];
 
@@ -63,6 +85,47 @@ export function buildPrompt(
     }
   }
 
+  // Interrupted run context
+  if (options.resume) {
+    sections.push("## Resuming Interrupted Work");
+    sections.push("");
+    sections.push(
+      "A previous agent session on this branch was interrupted before it finished. " +
+        "The working directory may already contain its partial changes and commits."
+    );
+    sections.push("");
+    sections.push(
+      "Review the current state with `git status`, `git diff` and `git log` first, " +
+        "then continue where you left off rather than starting over."
+    );
+    sections.push("");
+  }
+
+  // Review feedback on the existing PR
+  if (options.review) {
+    sections.push(...buildReviewSection(options.review));
+  }
+
+  // A new comment addressed to the agent takes priority
+  if (options.mention) {
+    sections.push("## Latest Instruction");
+    sections.push("");
+    sections.push(
+      `${options.mention.author} asked the agent to do the following. ` +
+        "Treat it as the priority for this session; where it conflicts with the description above, this comment wins."
+    );
+    sections.push("");
+    sections.push(options.mention.body.split("\n").map((line) => `> ${line}`).join("\n"));
+    sections.push("");
+    if (options.mention.prUrl) {
+      sections.push(
+        `Your earlier changes for this issue are already on this branch and open for review in ${options.mention.prUrl}. ` +
+          "Build on them rather than starting over."
+      );
+      sections.push("");
+    }
+  }
+
   // Requirements and guidelines
   sections.push("## Requirements");
   sections.push("");
@@ -75,6 +138,15 @@ export function buildPrompt(
   sections.push("- Follow existing code patterns and conventions in the repository");
   sections.push("- If tests exist, ensure they pass");
   sections.push("");
+
+  // Repository-specific rules
+  if (options.extraInstructions && options.extraInstructions.length > 0) {
+    sections.push("## Repository Guidelines");
+    sections.push("");
+    sections.push(options.extraInstructions.map((i) => `- ${i}`).join("\n"));
+    sections.push("");
+  }
+
   sections.push(
     "When complete, your changes will be committed and pushed to the branch for review."
   );
@@ -82,6 +154,271 @@ export function buildPrompt(
   return sections.join("\n");
 }
 
+/**
+ * Build the prompt section listing review feedback to address
+ */
+function buildReviewSection(review: ReviewFollowUp): string[] {
+  const sections: string[] = [];
+  sections.push("## Review Feedback");
+  sections.push("");
+  sections.push(
+    `Your changes for this issue are on this branch and open for review in ${review.prUrl}. ` +
+      "Reviewers left the feedback below. Address each point with new changes on top of " +
+      "the existing ones; don't start over."
+  );
+  sections.push("");
+
+  for (const r of review.reviews) {
+    sections.push(`**${r.author}** (review):`);
+    sections.push(r.body);
+    sections.push("");
+  }
+
+  for (const comment of review.comments) {
+    const location = comment.path
+      ? ` on \`${comment.path}${comment.line ? `:${comment.line}` : ""}\``
+      : "";
+    sections.push(`**${comment.author}**${location}:`);
+    sections.push(comment.body);
+    sections.push("");
+  }
+
+  return sections;
+}
+
+/**
+ * Build the reply posted in each review thread after a follow-up run
+ */
+export function buildReviewReply(commitSha?: string | null): string {
+  return commitSha
+    ? `The agent addressed this feedback in ${commitSha}.`
+    : "The agent looked at this feedback but made no code changes; see the summary on the pull request.";
+}
+
+/**
+ * Build the pull request comment summarizing a review follow-up run
+ */
+export function buildReviewSummary(
+  commitSha?: string | null,
+  agentSummary?: string
+): string {
+  const sections: string[] = [];
+  sections.push("## Review Feedback Addressed");
+  sections.push("");
+  sections.push(
+    commitSha
+      ? `New changes were pushed in ${commitSha}.`
+      : "No code changes were made."
+  );
+  sections.push("");
+  if (agentSummary?.trim()) {
+    sections.push("### Agent Summary");
+    sections.push("");
+    sections.push(agentSummary.trim());
+    sections.push("");
+  }
+
+  return sections.join("\n");
+}
+
+/**
+ * Describe how a failed check ended, e.g. "exit code 1"
+ */
+export function describeCheckOutcome(check: VerificationCheck): string {
+  return check.timedOut
+    ? `timed out after ${Math.round(check.durationMs / 1000)}s`
+    : `exit code ${check.exitCode}`;
+}
+
+/**
+ * Describe failing verification checks with their output
+ */
+function buildFailedChecks(verification: VerificationResult): string[] {
+  const sections: string[] = [];
+  for (const check of verification.checks.filter((c) => !c.passed)) {
+    sections.push(`#### \`${check.command}\` (${describeCheckOutcome(check)})`);
+    sections.push("");
+    sections.push("```");
+    sections.push(check.output || "(no output)");
+    sections.push("```");
+    sections.push("");
+  }
+  return sections;
+}
+
+/**
+ * Build a follow-up prompt asking Claude to fix verification failures
+ * Pass the original prompt when the session can't be resumed, so a new
+ * session still has the issue context
+ */
+export function buildVerificationFixPrompt(
+  verification: VerificationResult,
+  basePrompt?: string
+): string {
+  const sections: string[] = [];
+  if (basePrompt) {
+    sections.push(basePrompt);
+    sections.push("");
+  }
+  sections.push("## Verification Failures");
+  sections.push("");
+  sections.push(
+    "Changes for this issue are already in the working directory, but the repository's " +
+      "verification commands fail. Fix the problems below without undoing the intended change, " +
+      "then run the failing commands again to confirm they pass."
+  );
+  sections.push("");
+  sections.push(...buildFailedChecks(verification));
+
+  return sections.join("\n");
+}
+
+/**
+ * Build a follow-up prompt for a session that finished without changes
+ */
+export function buildNoChangesPrompt(basePrompt?: string): string {
+  const sections: string[] = [];
+  if (basePrompt) {
+    sections.push(basePrompt);
+    sections.push("");
+  }
+  sections.push("## No Changes Detected");
+  sections.push("");
+  sections.push(
+    "The previous session finished without changing any files in the working directory. " +
+      "If the issue requires code changes, make them now. If you are certain no changes " +
+      "are needed, explain why in your final message."
+  );
+
+  return sections.join("\n");
+}
+
+/**
+ * Attempt information shown in failure comments
+ */
+export interface AttemptInfo {
+  attempt: number;
+  maxAttempts: number;
+  /** Set when another attempt has been scheduled */
+  retryInMs?: number;
+}
+
+/**
+ * Extra run information included in completion comments and PR bodies
+ */
+export interface CompletionDetails {
+  attempt?: AttemptInfo;
+  /** The agent's own final message */
+  agentSummary?: string;
+  changes?: ChangeSummary;
+  durationMs?: number;
+  verification?: VerificationResult;
+  /** PR was opened as a draft */
+  draft?: boolean;
+  /** Number of Claude sessions in the run */
+  iterations?: number;
+}
+
+/**
+ * Describe a run duration, e.g. "12m 5s"
+ */
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+/**
+ * Build the sections describing a finished run: duration, the agent's
+ * summary, diff stat and commits
+ * Shared by the completion comment and the PR body
+ */
+export function buildRunReport(details: CompletionDetails): string[] {
+  const sections: string[] = [];
+
+  if (details.durationMs !== undefined) {
+    sections.push(`Duration: ${formatDuration(details.durationMs)}`);
+    sections.push("");
+  }
+
+  if (details.iterations && details.iterations > 1) {
+    sections.push(`Claude sessions: ${details.iterations}`);
+    sections.push("");
+  }
+
+  if (details.agentSummary?.trim()) {
+    sections.push("### Agent Summary");
+    sections.push("");
+    sections.push(details.agentSummary.trim());
+    sections.push("");
+  }
+
+  const changes = details.changes;
+  if (changes) {
+    sections.push("### Changes");
+    sections.push("");
+    sections.push(
+      `${changes.filesChanged} file${changes.filesChanged === 1 ? "" : "s"} changed, ` +
+        `${changes.insertions} insertion${changes.insertions === 1 ? "" : "s"}(+), ` +
+        `${changes.deletions} deletion${changes.deletions === 1 ? "" : "s"}(-)`
+    );
+    if (changes.commits.length > 0) {
+      sections.push("");
+      sections.push("Commits:");
+      for (const commit of changes.commits) {
+        sections.push(`- \`${commit.sha}\` ${commit.subject}`);
+      }
+    }
+    sections.push("");
+  }
+
+  if (details.verification) {
+    sections.push(...buildVerificationReport(details.verification));
+  }
+
+  return sections;
+}
+
+/**
+ * Build the verification section: each command's outcome, with output for
+ * failures
+ */
+function buildVerificationReport(verification: VerificationResult): string[] {
+  const sections: string[] = [];
+  sections.push("### Verification");
+  sections.push("");
+  for (const check of verification.checks) {
+    const outcome = check.passed ? "passed" : `failed (${describeCheckOutcome(check)})`;
+    sections.push(`- \`${check.command}\`: ${outcome}`);
+  }
+  if (verification.fixAttempted) {
+    sections.push("");
+    sections.push(
+      verification.passed
+        ? "Checks initially failed and were fixed by the agent."
+        : "The agent was given the failures but could not fix them."
+    );
+  }
+  sections.push("");
+  if (!verification.passed) {
+    sections.push(...buildFailedChecks(verification));
+  }
+  return sections;
+}
+
+/**
+ * Describe a retry delay in whole minutes or seconds
+ */
+function formatDelay(ms: number): string {
+  if (ms >= 60000) {
+    const minutes = Math.round(ms / 60000);
+    return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  }
+  const seconds = Math.round(ms / 1000);
+  return `${seconds} second${seconds === 1 ? "" : "s"}`;
+}
+
 /**
  * Build a summary of what the agent accomplished for the Linear comment
  */
@@ -89,26 +426,41 @@ export function buildCompletionSummary(
   hasChanges: boolean,
   branchName: string,
   prUrl?: string | null,
-  error?: string
+  error?: string,
+  details: CompletionDetails = {}
 ): string {
+  const attemptInfo = details.attempt;
   if (error) {
+    const attemptLine = attemptInfo
+      ? `Attempt ${attemptInfo.attempt} of ${attemptInfo.maxAttempts}\n\n`
+      : "";
+    const nextStep =
+      attemptInfo?.retryInMs !== undefined
+        ? `The agent will retry automatically in ${formatDelay(attemptInfo.retryInMs)}.`
+        : "Please review the error and retry if appropriate.";
+
     return `## Agent Failed
 
-The agent encountered an error while working on this issue:
+${attemptLine}The agent encountered an error while working on this issue:
 
 \`\`\`
 ${error}
 \`\`\`
 
-Please review the error and retry if appropriate.`;
+${details.verification ? buildVerificationReport(details.verification).join("\n") + "\n" : ""}${nextStep}`;
   }
 
   if (!hasChanges) {
-    return `## Agent Completed
-
-The agent analyzed this issue but determined no code changes were necessary, or the changes could not be completed.
-
-Please review and provide additional context if needed.`;
+    const sections: string[] = [];
+    sections.push("## Agent Completed");
+    sections.push("");
+    sections.push(
+      "The agent analyzed this issue but determined no code changes were necessary, or the changes could not be completed."
+    );
+    sections.push("");
+    sections.push(...buildRunReport(details));
+    sections.push("Please review and provide additional context if needed.");
+    return sections.join("\n");
   }
 
   const sections: string[] = [];
@@ -118,11 +470,49 @@ Please review and provide additional context if needed.`;
 
   if (prUrl) {
     sections.push("");
-    sections.push(`Pull Request: ${prUrl}`);
+    sections.push(`Pull Request: ${prUrl}${details.draft ? " (draft)" : ""}`);
   }
 
   sections.push("");
+  sections.push(...buildRunReport(details));
   sections.push("The agent has made changes to address this issue. Please review the changes and provide feedback.");
 
   return sections.join("\n");
 }
+
+/**
+ * Build the comment posted when an issue's repository is rejected
+ */
+export function buildRepoRejectionSummary(reason: string): string {
+  const sections: string[] = [];
+  sections.push("## Agent Not Started");
+  sections.push("");
+  sections.push(reason);
+  sections.push("");
+  sections.push(
+    "Set the repository to one the agent is configured for, then add the trigger label again."
+  );
+
+  return sections.join("\n");
+}
+
+/**
+ * Build the comment posted when a queued or running agent is cancelled
+ */
+export function buildCancellationSummary(
+  reason: string,
+  worktreeRemoved: boolean
+): string {
+  const sections: string[] = [];
+  sections.push("## Agent Cancelled");
+  sections.push("");
+  sections.push(`The agent run for this issue was cancelled: ${reason}.`);
+  sections.push("");
+  sections.push(
+    worktreeRemoved
+      ? "The worktree has been removed."
+      : "The worktree has been kept so any partial work can be inspected."
+  );
+
+  return sections.join("\n");
+}
@@ -0,0 +1,290 @@
+import { existsSync, readFileSync } from "fs";
+import { resolve } from "path";
+import type { IssueLogger } from "../logger";
+import type { AgentTask, Issue } from "../types";
+import {
+  detectCodeHost,
+  getCodeHost,
+  getCodeHostInstance,
+  type CodeHostClient,
+  type GitCredentials,
+} from "../providers";
+import type { ResolvedRepoSettings } from "./repo-config";
+import { getChangedFiles, getRemoteUrl, redactUrl } from "./git";
+
+/**
+ * Metadata applied when opening a pull request
+ */
+export interface PullRequestOptions {
+  draft?: boolean;
+  reviewers?: string[];
+  labels?: string[];
+  assignees?: string[];
+}
+
+/**
+ * A pull request opened or updated for a run
+ */
+export interface OpenedPullRequest {
+  url: string;
+  draft: boolean;
+  /** False when an already open PR for the branch was updated */
+  created: boolean;
+}
+
+/**
+ * Where a run's pull request is opened: a code host and the project on it
+ */
+export interface PullRequestTarget {
+  host: CodeHostClient;
+  project: string;
+}
+
+// Locations GitHub and GitLab read CODEOWNERS from, in order of precedence
+const CODEOWNERS_PATHS = [
+  ".github/CODEOWNERS",
+  ".gitlab/CODEOWNERS",
+  "CODEOWNERS",
+  "docs/CODEOWNERS",
+];
+
+/**
+ * A CODEOWNERS rule: a path pattern and the owners of matching files
+ */
+interface CodeOwnersRule {
+  pattern: RegExp;
+  owners: string[];
+}
+
+/**
+ * Convert a CODEOWNERS (gitignore-style) pattern to a regular expression
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.startsWith("/") || pattern.slice(0, -1).includes("/");
+  const directory = pattern.endsWith("/");
+  const body = pattern
+    .replace(/^\//, "")
+    .replace(/\/$/, "")
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*\*/g, "\u0000")
+    .replace(/\*/g, "[^/]*")
+    .replace(/\?/g, "[^/]")
+    .replace(/\u0000/g, ".*");
+
+  const prefix = anchored ? "^" : "(^|/)";
+  // A bare name matches a file or everything under a directory of that name
+  const suffix = directory ? "/" : "(/|$)";
+  return new RegExp(`${prefix}${body}${suffix}`);
+}
+
+/**
+ * Read the repository's CODEOWNERS rules, if it has a CODEOWNERS file
+ */
+function readCodeOwners(worktreePath: string): CodeOwnersRule[] {
+  const path = CODEOWNERS_PATHS.map((p) => resolve(worktreePath, p)).find(existsSync);
+  if (!path) {
+    return [];
+  }
+
+  const rules: CodeOwnersRule[] = [];
+  for (const line of readFileSync(path, "utf-8").split("\n")) {
+    const trimmed = line.replace(/#.*$/, "").trim();
+    if (!trimmed) continue;
+    const [pattern, ...owners] = trimmed.split(/\s+/);
+    rules.push({ pattern: patternToRegExp(pattern), owners });
+  }
+  return rules;
+}
+
+/**
+ * Find the code owners of a set of files
+ * As on GitHub, the last matching rule for a file wins
+ */
+export function getCodeOwners(worktreePath: string, files: string[]): string[] {
+  const rules = readCodeOwners(worktreePath);
+  const owners = new Set<string>();
+
+  for (const file of files) {
+    const rule = [...rules].reverse().find((r) => r.pattern.test(file));
+    for (const owner of rule?.owners ?? []) {
+      // Email owners can't be requested as reviewers
+      if (owner.startsWith("@")) {
+        owners.add(owner.slice(1));
+      }
+    }
+  }
+
+  return Array.from(owners);
+}
+
+/**
+ * Find the code host and project a task's pull request should go to
+ * The repository's `codeHost` setting wins; otherwise the host is detected
+ * from the origin remote. Tasks from a named GitHub or GitLab instance use
+ * that instance's credentials. Returns null if no PR can be opened.
+ */
+export async function resolvePullRequestTarget(
+  task: AgentTask,
+  settings: ResolvedRepoSettings,
+  issueLogger: IssueLogger
+): Promise<PullRequestTarget | null> {
+  const remoteUrl = await getRemoteUrl(task.worktreePath);
+  if (!remoteUrl) {
+    issueLogger.warn("Worktree has no origin remote, skipping pull request creation");
+    return null;
+  }
+
+  const kind =
+    settings.codeHost ?? detectCodeHost(remoteUrl, getCodeHostInstance("gitlab", task));
+  if (!kind) {
+    issueLogger.warn("Origin is not on a known code host, skipping pull request creation", {
+      remoteUrl: redactUrl(remoteUrl),
+    });
+    return null;
+  }
+
+  let host: CodeHostClient;
+  try {
+    host = getCodeHost(kind, getCodeHostInstance(kind, task));
+  } catch (e) {
+    issueLogger.warn(`${e instanceof Error ? e.message : e}, skipping pull request creation`);
+    return null;
+  }
+
+  const project = host.parseRemote(remoteUrl);
+  if (!project) {
+    issueLogger.warn(`Origin is not a ${kind} remote, skipping pull request creation`, {
+      remoteUrl: redactUrl(remoteUrl),
+    });
+    return null;
+  }
+
+  return { host, project };
+}
+
+/**
+ * Get credentials the code host wants the branch pushed with
+ * The target's host belongs to the task's instance, so a GitHub App push
+ * uses the installation token of the app that received the webhook.
+ * Returns null to push with the worktree's own git credentials.
+ */
+export async function getPushCredentials(
+  target: PullRequestTarget,
+  issueLogger: IssueLogger
+): Promise<GitCredentials | null> {
+  if (!target.host.getPushCredentials) {
+    return null;
+  }
+  try {
+    return await target.host.getPushCredentials(target.project);
+  } catch (e) {
+    issueLogger.warn(`Failed to get push credentials, pushing with git's own: ${e}`);
+    return null;
+  }
+}
+
+/**
+ * Open a pull request (a merge request on GitLab) for a pushed branch, or
+ * update the one already open for it (e.g. when a retry pushes the branch
+ * again). Returns null if no PR could be opened.
+ */
+export async function openPullRequest(
+  target: PullRequestTarget,
+  input: { title: string; body: string; head: string; base: string },
+  options: PullRequestOptions,
+  issueLogger: IssueLogger
+): Promise<OpenedPullRequest | null> {
+  const { host, project } = target;
+  let pr;
+  try {
+    const existing = await host.findOpenPullRequest(project, input.head);
+    if (existing) {
+      pr = await host.updatePullRequest(project, existing.number, {
+        title: input.title,
+        body: input.body,
+      });
+      issueLogger.info(`Updated existing PR: ${pr.url}`);
+      return { url: pr.url, draft: pr.draft, created: false };
+    }
+
+    pr = await host.createPullRequest(project, { ...input, draft: options.draft });
+    issueLogger.info(`Created PR: ${pr.url}`);
+  } catch (e) {
+    issueLogger.warn(`Failed to create PR: ${e}`);
+    return null;
+  }
+
+  // The PR exists at this point; missing metadata shouldn't fail the run
+  const number = pr.number;
+  const apply = async (what: string, fn: () => Promise<void>): Promise<void> => {
+    try {
+      await fn();
+    } catch (e) {
+      issueLogger.warn(`Failed to add ${what} to PR: ${e}`);
+    }
+  };
+  const { reviewers, labels, assignees } = options;
+  if (reviewers && reviewers.length > 0) {
+    await apply("reviewers", () => host.requestReviewers(project, number, reviewers));
+  }
+  if (labels && labels.length > 0) {
+    await apply("labels", () => host.addLabels(project, number, labels));
+  }
+  if (assignees && assignees.length > 0) {
+    await apply("assignees", () => host.addAssignees(project, number, assignees));
+  }
+
+  return { url: pr.url, draft: pr.draft, created: true };
+}
+
+/**
+ * Work out the reviewers, labels and assignees for a new pull request
+ * Expands "@creator" and "@codeowners" in reviewers and "@trigger" in
+ * assignees; placeholders that can't be resolved are dropped
+ */
+export async function resolvePullRequestOptions(
+  task: AgentTask,
+  issue: Issue,
+  settings: ResolvedRepoSettings,
+  baseBranch: string,
+  issueLogger: IssueLogger
+): Promise<Required<Omit<PullRequestOptions, "draft">>> {
+  // Only GitHub and GitLab issues have creators with code host accounts
+  const creator =
+    task.provider === "github" || task.provider === "gitlab"
+      ? (issue.metadata?.author as string | undefined)
+      : undefined;
+
+  const reviewers = new Set<string>();
+  for (const reviewer of settings.prReviewers) {
+    if (reviewer === "@creator") {
+      if (creator) reviewers.add(creator);
+    } else if (reviewer === "@codeowners") {
+      try {
+        const files = await getChangedFiles(task.worktreePath, baseBranch);
+        for (const owner of getCodeOwners(task.worktreePath, files)) {
+          reviewers.add(owner);
+        }
+      } catch (e) {
+        issueLogger.warn(`Failed to determine code owners: ${e}`);
+      }
+    } else {
+      reviewers.add(reviewer.replace(/^@/, ""));
+    }
+  }
+
+  const assignees = new Set<string>();
+  for (const assignee of settings.prAssignees) {
+    if (assignee === "@trigger") {
+      if (task.triggeredBy) assignees.add(task.triggeredBy);
+    } else {
+      assignees.add(assignee.replace(/^@/, ""));
+    }
+  }
+
+  return {
+    reviewers: Array.from(reviewers),
+    labels: settings.prLabels,
+    assignees: Array.from(assignees),
+  };
+}
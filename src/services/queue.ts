@@ -1,8 +1,9 @@
 import { config } from "../config";
 import { logger } from "../logger";
 import type { AgentTask, QueueItem, QueueStatus } from "../types";
+import { recordEvent } from "./state";
 
-// In-memory queue for pending tasks
+// In-memory queue for pending tasks (mirrored to the on-disk journal)
 const pendingQueue: QueueItem[] = [];
 
 // Map of currently running agents by issue ID
@@ -24,6 +25,7 @@ export function addTask(task: AgentTask): void {
   };
 
   pendingQueue.push(item);
+  recordEvent("enqueued", item.task);
   logger.info(`Added task for issue ${task.identifier} to queue`, {
     queueDepth: pendingQueue.length,
   });
@@ -31,10 +33,18 @@ export function addTask(task: AgentTask): void {
 
 /**
  * Get the next task from the queue (FIFO)
+ * Tasks waiting for a scheduled retry are skipped until their time comes
  */
 export function getNext(): AgentTask | null {
-  const item = pendingQueue.shift();
-  return item?.task ?? null;
+  const now = Date.now();
+  const index = pendingQueue.findIndex(
+    (item) => !item.task.nextAttemptAt || item.task.nextAttemptAt.getTime() <= now
+  );
+  if (index === -1) {
+    return null;
+  }
+  const [item] = pendingQueue.splice(index, 1);
+  return item.task;
 }
 
 /**
@@ -61,6 +71,7 @@ export function markRunning(task: AgentTask): void {
     startedAt: new Date(),
   };
   runningAgents.set(task.issueId, runningTask);
+  recordEvent("started", runningTask);
   logger.info(`Agent started for issue ${task.identifier}`, {
     runningCount: runningAgents.size,
   });
@@ -73,6 +84,7 @@ export function markComplete(issueId: string): void {
   const task = runningAgents.get(issueId);
   if (task) {
     runningAgents.delete(issueId);
+    recordEvent("completed", { ...task, status: "completed" });
     logger.info(`Agent completed for issue ${task.identifier}`, {
       runningCount: runningAgents.size,
     });
@@ -86,6 +98,7 @@ export function markFailed(issueId: string, error?: string): void {
   const task = runningAgents.get(issueId);
   if (task) {
     runningAgents.delete(issueId);
+    recordEvent("failed", { ...task, status: "failed" }, error);
     logger.error(`Agent failed for issue ${task.identifier}`, {
       error,
       runningCount: runningAgents.size,
@@ -93,6 +106,96 @@ export function markFailed(issueId: string, error?: string): void {
   }
 }
 
+/**
+ * Mark a running task as cancelled and remove from running
+ */
+export function markCancelled(issueId: string): void {
+  const task = runningAgents.get(issueId);
+  if (task) {
+    runningAgents.delete(issueId);
+    recordEvent("cancelled", { ...task, status: "cancelled" });
+    logger.info(`Agent cancelled for issue ${task.identifier}`, {
+      runningCount: runningAgents.size,
+    });
+  }
+}
+
+/**
+ * Remove a task from the pending queue
+ * Returns the removed task, or null if it was not queued
+ */
+export function removeQueued(issueId: string): AgentTask | null {
+  const index = pendingQueue.findIndex((item) => item.task.issueId === issueId);
+  if (index === -1) {
+    return null;
+  }
+
+  const [item] = pendingQueue.splice(index, 1);
+  recordEvent("cancelled", { ...item.task, status: "cancelled" });
+  logger.info(`Removed issue ${item.task.identifier} from queue`, {
+    queueDepth: pendingQueue.length,
+  });
+  return item.task;
+}
+
+/**
+ * Replace fields of a queued task, recording the updated task in the journal
+ * Returns the updated task, or null if it was not queued
+ */
+export function updateQueued(
+  issueId: string,
+  changes: Partial<AgentTask>
+): AgentTask | null {
+  const item = pendingQueue.find((item) => item.task.issueId === issueId);
+  if (!item) {
+    return null;
+  }
+
+  item.task = { ...item.task, ...changes, status: "queued" };
+  recordEvent("updated", item.task);
+  return item.task;
+}
+
+/**
+ * Get a queued or running task by issue ID
+ */
+export function getTask(issueId: string): AgentTask | null {
+  const running = runningAgents.get(issueId);
+  if (running) {
+    return running;
+  }
+  const queued = pendingQueue.find((item) => item.task.issueId === issueId);
+  return queued?.task ?? null;
+}
+
+/**
+ * Mark a running task as failed and queue its next attempt after a delay
+ */
+export function scheduleRetry(
+  issueId: string,
+  delayMs: number,
+  error?: string
+): void {
+  const task = runningAgents.get(issueId);
+  if (!task) {
+    return;
+  }
+
+  markFailed(issueId, error);
+
+  const nextAttempt = (task.attempt ?? 1) + 1;
+  addTask({
+    ...task,
+    attempt: nextAttempt,
+    nextAttemptAt: new Date(Date.now() + delayMs),
+    lastError: error,
+    startedAt: undefined,
+  });
+  logger.info(`Scheduled attempt ${nextAttempt} for issue ${task.identifier}`, {
+    delayMs,
+  });
+}
+
 /**
  * Check if an issue is currently queued
  */
@@ -119,7 +222,17 @@ export function getStatus(): QueueStatus {
       identifier: task.identifier,
       repo: task.repo,
       startedAt: task.startedAt || new Date(),
+      attempt: task.attempt ?? 1,
     })),
+    scheduledRetries: pendingQueue
+      .filter((item) => item.task.nextAttemptAt)
+      .map((item) => ({
+        issueId: item.task.issueId,
+        identifier: item.task.identifier,
+        attempt: item.task.attempt ?? 1,
+        nextAttemptAt: item.task.nextAttemptAt as Date,
+        lastError: item.task.lastError,
+      })),
   };
 }
 
@@ -130,6 +243,27 @@ export function getRunningTasks(): AgentTask[] {
   return Array.from(runningAgents.values());
 }
 
+/**
+ * Get all pending tasks in queue order
+ */
+export function getPendingTasks(): AgentTask[] {
+  return pendingQueue.map((item) => item.task);
+}
+
+/**
+ * Restore pending tasks in their original order (for crash recovery)
+ * Events are not re-recorded since they already exist in the journal
+ */
+export function restorePendingTasks(items: QueueItem[]): void {
+  for (const item of items) {
+    if (isQueued(item.task.issueId) || isRunning(item.task.issueId)) {
+      continue;
+    }
+    pendingQueue.push(item);
+  }
+  logger.info(`Restored ${items.length} pending tasks from state`);
+}
+
 /**
  * Restore running tasks (for crash recovery)
  */
@@ -0,0 +1,106 @@
+import { config } from "../config";
+import { logger } from "../logger";
+import type { AgentTask } from "../types";
+import { getClient } from "../providers";
+import * as queue from "./queue";
+import { buildCompletionSummary } from "./prompt-builder";
+import { discardTaskWorktree, getWorktreeState } from "./git";
+
+/**
+ * Mark an interrupted task as failed and let the issue know
+ */
+async function failTask(task: AgentTask, reason: string): Promise<void> {
+  queue.restoreRunningTasks([task]);
+  queue.markFailed(task.issueId, reason);
+
+  try {
+    const client = getClient(task.provider, task.instance);
+    await client.addComment(
+      task.issueId,
+      buildCompletionSummary(false, task.identifier, null, reason)
+    );
+  } catch (e) {
+    logger.error(`Failed to add recovery comment to ${task.identifier}`, {
+      error: String(e),
+    });
+  }
+}
+
+/**
+ * Put an interrupted task back in the queue to start over
+ * The interrupted run's worktree and local branch are discarded so the next
+ * run starts from the base branch instead of on top of partial edits
+ */
+async function requeueTask(task: AgentTask): Promise<void> {
+  const worktree = await getWorktreeState(task.worktreePath);
+  if (worktree.exists) {
+    logger.info(`Discarding worktree of interrupted task ${task.identifier}`, {
+      worktreePath: task.worktreePath,
+      hasChanges: worktree.hasChanges,
+    });
+  }
+  await discardTaskWorktree(task);
+
+  queue.addTask({ ...task, resume: false });
+  logger.info(`Re-queued interrupted task ${task.identifier}`);
+}
+
+/**
+ * Queue an interrupted task to continue in its existing worktree
+ * Falls back to a fresh start when there is nothing to resume from
+ */
+async function resumeTask(task: AgentTask): Promise<void> {
+  const worktree = await getWorktreeState(task.worktreePath);
+  if (!worktree.valid) {
+    logger.info(
+      `No usable worktree for ${task.identifier}, starting over instead of resuming`
+    );
+    await requeueTask(task);
+    return;
+  }
+
+  queue.addTask({ ...task, resume: true });
+  logger.info(`Queued ${task.identifier} to resume in existing worktree`, {
+    hasChanges: worktree.hasChanges,
+  });
+}
+
+/**
+ * Apply the configured recovery policy to tasks that were running when the
+ * server last stopped, so they no longer hold concurrency slots
+ */
+export async function recoverInterruptedTasks(
+  tasks: AgentTask[]
+): Promise<void> {
+  if (tasks.length === 0) {
+    return;
+  }
+
+  logger.info(
+    `Recovering ${tasks.length} interrupted task(s) with policy "${config.recoveryPolicy}"`
+  );
+
+  for (const task of tasks) {
+    try {
+      switch (config.recoveryPolicy) {
+        case "fail":
+          await failTask(
+            task,
+            "The agent was interrupted by a server restart before it finished."
+          );
+          break;
+        case "requeue":
+          await requeueTask(task);
+          break;
+        case "resume":
+          await resumeTask(task);
+          break;
+      }
+    } catch (e) {
+      logger.error(`Failed to recover task ${task.identifier}`, {
+        error: String(e),
+      });
+      await failTask(task, `Recovery after restart failed: ${e}`);
+    }
+  }
+}
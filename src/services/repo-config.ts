@@ -0,0 +1,319 @@
+import { existsSync, readFileSync } from "fs";
+import { resolve } from "path";
+import { config } from "../config";
+import { logger, type IssueLogger } from "../logger";
+import type { CodeHostKind, Issue, RepoSettings, VerificationPolicy } from "../types";
+import { detectDefaultBranch, fetchBranch, hasRef, readFileAtRef } from "./git";
+
+/**
+ * File in a repository root holding its agent settings
+ */
+export const REPO_CONFIG_FILE = ".issue-agent.json";
+
+const DEFAULT_BASE_BRANCH = "main";
+const DEFAULT_COMMIT_MESSAGE_FORMAT = "feat: {title}";
+const VERIFICATION_POLICIES: VerificationPolicy[] = ["fix", "draft", "fail"];
+const CODE_HOSTS: CodeHostKind[] = ["github", "gitlab"];
+
+/**
+ * Repository settings with defaults applied
+ */
+export interface ResolvedRepoSettings {
+  /** Configured base branch; detected from the remote when unset */
+  baseBranch?: string;
+  agentTimeout: number;
+  promptInstructions: string[];
+  allowedTools?: string[];
+  setupCommands: string[];
+  commitMessageFormat: string;
+  verifyCommands: string[];
+  commandTimeout: number;
+  verificationPolicy: VerificationPolicy;
+  maxIterations: number;
+  prDraft: boolean;
+  prReviewers: string[];
+  prLabels: string[];
+  prAssignees: string[];
+  prLinkIssue: boolean;
+  /** Configured code host; detected from the origin remote when unset */
+  codeHost?: CodeHostKind;
+}
+
+/**
+ * Check that a value is an array of strings
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+/**
+ * Keep only well-typed settings, warning about anything else
+ * A single string is accepted wherever a list of strings is expected
+ */
+function sanitize(
+  raw: Record<string, unknown>,
+  source: string,
+  log: IssueLogger | typeof logger
+): RepoSettings {
+  const settings: RepoSettings = {};
+  const invalid: string[] = [];
+  const toList = (value: unknown): string[] | undefined =>
+    typeof value === "string" ? [value] : isStringArray(value) ? value : undefined;
+
+  for (const [key, value] of Object.entries(raw)) {
+    switch (key) {
+      case "baseBranch":
+      case "commitMessageFormat":
+        if (typeof value === "string" && value.trim()) {
+          settings[key] = value.trim();
+        } else {
+          invalid.push(key);
+        }
+        break;
+      case "agentTimeout":
+      case "commandTimeout":
+      case "maxIterations":
+        if (typeof value === "number" && value > 0) {
+          settings[key] = value;
+        } else {
+          invalid.push(key);
+        }
+        break;
+      case "prDraft":
+      case "prLinkIssue":
+        if (typeof value === "boolean") {
+          settings[key] = value;
+        } else {
+          invalid.push(key);
+        }
+        break;
+      case "verificationPolicy":
+        if (VERIFICATION_POLICIES.includes(value as VerificationPolicy)) {
+          settings.verificationPolicy = value as VerificationPolicy;
+        } else {
+          invalid.push(key);
+        }
+        break;
+      case "codeHost":
+        if (CODE_HOSTS.includes(value as CodeHostKind)) {
+          settings.codeHost = value as CodeHostKind;
+        } else {
+          invalid.push(key);
+        }
+        break;
+      case "promptInstructions":
+      case "allowedTools":
+      case "setupCommands":
+      case "verifyCommands":
+      case "prReviewers":
+      case "prLabels":
+      case "prAssignees": {
+        const list = toList(value);
+        if (list) {
+          settings[key] = list;
+        } else {
+          invalid.push(key);
+        }
+        break;
+      }
+      default:
+        invalid.push(key);
+    }
+  }
+
+  if (invalid.length > 0) {
+    log.warn(`Ignoring unknown or invalid repository settings in ${source}`, {
+      keys: invalid,
+    });
+  }
+
+  return settings;
+}
+
+/**
+ * Parse the contents of a repository settings file
+ */
+function parseRepoFile(
+  content: string,
+  source: string,
+  log: IssueLogger | typeof logger
+): RepoSettings {
+  try {
+    const raw = JSON.parse(content);
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+      throw new Error("expected a JSON object");
+    }
+    return sanitize(raw as Record<string, unknown>, source, log);
+  } catch (e) {
+    log.warn(`Failed to parse ${source}: ${e}`);
+    return {};
+  }
+}
+
+/**
+ * Read the repository's own settings file, if present
+ *
+ * The file is read from origin/<branch>, freshly fetched, because the main
+ * clone's working tree is never updated after cloning. Repositories without
+ * that branch on origin (e.g. local-only clones) fall back to the working tree.
+ */
+async function readRepoFileContent(
+  repoPath: string,
+  branch: string | null,
+  log: IssueLogger | typeof logger
+): Promise<{ content: string; source: string } | null> {
+  if (branch) {
+    try {
+      await fetchBranch(repoPath, branch);
+    } catch (e) {
+      log.warn(`Failed to fetch ${branch} for repository settings: ${e}`);
+    }
+    const ref = `origin/${branch}`;
+    if (await hasRef(repoPath, ref)) {
+      const content = await readFileAtRef(repoPath, ref, REPO_CONFIG_FILE);
+      return content === null ? null : { content, source: `${ref}:${REPO_CONFIG_FILE}` };
+    }
+  }
+
+  const filePath = resolve(repoPath, REPO_CONFIG_FILE);
+  if (!existsSync(filePath)) {
+    return null;
+  }
+  return { content: readFileSync(filePath, "utf-8"), source: filePath };
+}
+
+/**
+ * Load the effective settings for a repository
+ * Precedence: config.json `repos` entry, then `.issue-agent.json`, then
+ * global defaults
+ *
+ * @param branch - Branch to read `.issue-agent.json` from, defaults to the
+ *   remote's default branch
+ */
+export async function loadRepoSettings(
+  repo: string,
+  repoPath: string,
+  log: IssueLogger | typeof logger = logger,
+  branch?: string
+): Promise<ResolvedRepoSettings> {
+  const settingsBranch = branch ?? (await detectDefaultBranch(repoPath));
+  const file = await readRepoFileContent(repoPath, settingsBranch, log);
+  const fromFile = file ? parseRepoFile(file.content, file.source, log) : {};
+  const fromConfig = config.repos[repo]
+    ? sanitize(
+        config.repos[repo] as Record<string, unknown>,
+        `config.json repos["${repo}"]`,
+        log
+      )
+    : {};
+  const merged: RepoSettings = { ...fromFile, ...fromConfig };
+
+  return {
+    baseBranch: merged.baseBranch,
+    agentTimeout: merged.agentTimeout ?? config.agentTimeout,
+    promptInstructions: merged.promptInstructions ?? [],
+    allowedTools: merged.allowedTools,
+    setupCommands: merged.setupCommands ?? [],
+    commitMessageFormat:
+      merged.commitMessageFormat ?? DEFAULT_COMMIT_MESSAGE_FORMAT,
+    verifyCommands: merged.verifyCommands ?? [],
+    commandTimeout: merged.commandTimeout ?? config.commandTimeout,
+    verificationPolicy: merged.verificationPolicy ?? config.verificationPolicy,
+    maxIterations: merged.maxIterations ?? config.agentMaxIterations,
+    prDraft: merged.prDraft ?? config.prDraft,
+    prReviewers: merged.prReviewers ?? config.prReviewers,
+    prLabels: merged.prLabels ?? config.prLabels,
+    prAssignees: merged.prAssignees ?? config.prAssignees,
+    prLinkIssue: merged.prLinkIssue ?? config.prLinkIssue,
+    codeHost: merged.codeHost,
+  };
+}
+
+/**
+ * Where the base branch for a run came from
+ */
+export type BaseBranchSource = "issue" | "config" | "detected" | "default";
+
+// Issue label that picks a base branch, e.g. "base:release/2.0"
+const BASE_LABEL_PATTERN = /^base:\s*(\S+)$/i;
+
+/**
+ * Read only the `baseBranch` setting, from config.json or else the settings
+ * file on the remote's default branch
+ * Other keys are checked and reported when the settings are loaded
+ */
+async function readBaseBranchSetting(
+  repo: string,
+  repoPath: string,
+  defaultBranch: string | null,
+  log: IssueLogger | typeof logger
+): Promise<string | undefined> {
+  const configured: unknown = config.repos[repo]?.baseBranch;
+  if (typeof configured === "string" && configured.trim()) {
+    return configured.trim();
+  }
+
+  const file = await readRepoFileContent(repoPath, defaultBranch, log);
+  if (!file) {
+    return undefined;
+  }
+  try {
+    const raw: unknown = JSON.parse(file.content);
+    if (
+      raw &&
+      typeof raw === "object" &&
+      "baseBranch" in raw &&
+      typeof raw.baseBranch === "string" &&
+      raw.baseBranch.trim()
+    ) {
+      return raw.baseBranch.trim();
+    }
+  } catch {
+    // A malformed file is reported when the settings are loaded
+  }
+  return undefined;
+}
+
+/**
+ * Decide which branch to base work on and open the PR against
+ * Precedence: a `base:<branch>` issue label, the repository's `baseBranch`
+ * setting, the remote's default branch, then "main"
+ */
+export async function resolveBaseBranch(
+  issue: Issue,
+  repo: string,
+  repoPath: string,
+  log: IssueLogger | typeof logger = logger
+): Promise<{ branch: string; source: BaseBranchSource }> {
+  for (const label of issue.labels) {
+    const match = label.name.match(BASE_LABEL_PATTERN);
+    if (match) {
+      return { branch: match[1], source: "issue" };
+    }
+  }
+
+  const detected = await detectDefaultBranch(repoPath);
+  const configured = await readBaseBranchSetting(repo, repoPath, detected, log);
+  if (configured) {
+    return { branch: configured, source: "config" };
+  }
+
+  if (detected) {
+    return { branch: detected, source: "detected" };
+  }
+
+  return { branch: DEFAULT_BASE_BRANCH, source: "default" };
+}
+
+/**
+ * Render a commit message from the repository's format
+ */
+export function formatCommitMessage(
+  format: string,
+  values: { identifier: string; title: string; branch: string }
+): string {
+  return format
+    .replace(/\{identifier\}/g, values.identifier)
+    .replace(/\{title\}/g, values.title)
+    .replace(/\{branch\}/g, values.branch);
+}
@@ -0,0 +1,224 @@
+import { isAbsolute, relative, resolve } from "path";
+import { config } from "../config";
+import { logger } from "../logger";
+import type { Issue, RepoSource } from "../types";
+import type { IssueClient } from "../providers/types";
+import { buildRepoRejectionSummary } from "./prompt-builder";
+
+/**
+ * Outcome of resolving an issue's repository against the registry
+ */
+export type RepoResolution =
+  | { ok: true; name: string; path: string; remote?: string; source: RepoSource }
+  | { ok: false; reason: string };
+
+/**
+ * What else is known about an issue when its repository isn't set on it
+ * Only Linear issues provide this.
+ */
+export interface RepoContext {
+  /** Issue label names, searched for a `repo:<name>` label */
+  labels?: string[];
+  teamKey?: string;
+  project?: { id: string; name: string };
+}
+
+// Label naming the repository, e.g. "repo:web"
+const REPO_LABEL_PATTERN = /^repo:\s*(.+)$/i;
+
+/**
+ * Check whether the registry is in use (and therefore an allow-list)
+ */
+export function hasRegistry(): boolean {
+  return Object.keys(config.repositories).length > 0;
+}
+
+/**
+ * Find a registry entry name by its name or one of its aliases
+ */
+function findEntryName(value: string): string | null {
+  const needle = value.trim().toLowerCase();
+  for (const [name, entry] of Object.entries(config.repositories)) {
+    if (name.toLowerCase() === needle) return name;
+    if (entry.aliases?.some((alias) => alias.toLowerCase() === needle)) {
+      return name;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the registry entry mapped to a Linear team key
+ */
+function findEntryForTeam(teamKey: string): string | null {
+  const needle = teamKey.toLowerCase();
+  for (const [name, entry] of Object.entries(config.repositories)) {
+    if (entry.linearTeams?.some((key) => key.toLowerCase() === needle)) {
+      return name;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the registry entry mapped to a Linear project, by name or ID
+ */
+function findEntryForProject(project: { id: string; name: string }): string | null {
+  const needles = [project.id.toLowerCase(), project.name.toLowerCase()];
+  for (const [name, entry] of Object.entries(config.repositories)) {
+    if (entry.linearProjects?.some((value) => needles.includes(value.toLowerCase()))) {
+      return name;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the repository named by a `repo:<name>` label, if any
+ */
+function findRepoLabel(labels: string[]): string | null {
+  for (const label of labels) {
+    const match = label.match(REPO_LABEL_PATTERN);
+    if (match) {
+      return match[1].trim();
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve a path under reposBasePath, refusing anything that escapes it
+ */
+function resolveInsideBase(value: string): string | null {
+  const path = resolve(config.reposBasePath, value);
+  const rel = relative(config.reposBasePath, path);
+  if (!rel || rel.startsWith("..") || isAbsolute(rel)) {
+    return null;
+  }
+  return path;
+}
+
+/**
+ * Get the local path and remote for a canonical repository name
+ */
+export function getRepositoryLocation(name: string): {
+  path: string;
+  remote?: string;
+} {
+  const entry = config.repositories[name];
+  if (entry) {
+    return {
+      path: resolve(config.reposBasePath, entry.path ?? name),
+      remote: entry.remote,
+    };
+  }
+  return { path: resolve(config.reposBasePath, name) };
+}
+
+/**
+ * Resolve the repository of an issue to a repository the agent may use
+ *
+ * The first of these wins: the value set on the issue, a `repo:<name>`
+ * label, then the registry entry mapped to the issue's team or project. An
+ * explicit value (set on the issue or a label) that isn't allowed rejects
+ * the issue rather than falling back to a default.
+ *
+ * With a registry configured, only registered names and aliases are
+ * accepted. Without one, the value is used as a path under reposBasePath
+ * but may not escape it, and there are no team or project defaults.
+ */
+export function resolveRepository(
+  value: string | null,
+  context: RepoContext = {}
+): RepoResolution {
+  const label = value ? null : findRepoLabel(context.labels ?? []);
+  const explicit = value ?? label;
+  const explicitSource: RepoSource = value ? "issue" : "label";
+
+  if (hasRegistry()) {
+    let name: string | null;
+    let source: RepoSource;
+    if (explicit) {
+      name = findEntryName(explicit);
+      source = explicitSource;
+    } else {
+      const teamEntry = context.teamKey ? findEntryForTeam(context.teamKey) : null;
+      const projectEntry = context.project ? findEntryForProject(context.project) : null;
+      name = teamEntry ?? projectEntry;
+      source = teamEntry ? "team" : "project";
+    }
+
+    if (!name) {
+      return {
+        ok: false,
+        reason: explicit
+          ? `Repository "${explicit}" is not in the list of repositories the agent may work on.`
+          : "No repository was specified for this issue and neither its team nor its project has a default repository.",
+      };
+    }
+
+    return { ok: true, name, ...getRepositoryLocation(name), source };
+  }
+
+  if (!explicit) {
+    return { ok: false, reason: "No repository was specified for this issue." };
+  }
+
+  const path = resolveInsideBase(explicit);
+  if (!path) {
+    return {
+      ok: false,
+      reason: `Repository "${explicit}" does not resolve to a path inside the repositories directory.`,
+    };
+  }
+
+  return { ok: true, name: explicit, path, source: explicitSource };
+}
+
+/**
+ * Describe where a repository came from, for comments
+ */
+export function describeRepoSource(source: RepoSource): string {
+  switch (source) {
+    case "issue":
+      return "set on the issue";
+    case "label":
+      return "from a `repo:` label";
+    case "team":
+      return "default for the issue's team";
+    case "project":
+      return "default for the issue's project";
+  }
+}
+
+/**
+ * Get what a Linear issue offers for resolving its repository: labels, team
+ * and project
+ */
+export function getLinearRepoContext(issue: Issue): RepoContext {
+  const team = issue.metadata?.team as { key?: string } | undefined;
+  const project = issue.metadata?.project as { id: string; name: string } | undefined;
+  return {
+    labels: issue.labels.map((label) => label.name),
+    teamKey: team?.key,
+    project,
+  };
+}
+
+/**
+ * Tell the issue why the agent will not work on it
+ */
+export async function notifyRepoRejected(
+  client: IssueClient,
+  issue: Issue,
+  reason: string
+): Promise<void> {
+  logger.warn(`Rejected repository for ${issue.identifier}`, { reason });
+  try {
+    await client.addComment(issue.id, buildRepoRejectionSummary(reason));
+  } catch (e) {
+    logger.error(`Failed to add repository rejection comment to ${issue.identifier}`, {
+      error: String(e),
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import { describe, expect, test } from "bun:test";
+import { classifyError } from "./retry-policy";
+
+describe("classifyError", () => {
+  test("keeps setup and verification timeouts apart from agent timeouts", () => {
+    expect(classifyError("Agent timed out after 30 minutes")).toBe("timeout");
+    expect(classifyError('Setup command "pnpm install" timed out after 600s')).toBe("setup");
+    expect(classifyError('Setup command "pnpm install" failed with code 1: boom')).toBe("setup");
+    expect(classifyError("Verification failed: pnpm test (timed out after 600s)")).toBe(
+      "verification"
+    );
+  });
+
+  test("recognises push, provider API and git failures", () => {
+    expect(classifyError("Failed to push branch eng-1: rejected")).toBe("push");
+    expect(classifyError("GitHub API error: 502 Bad Gateway")).toBe("provider_api");
+    expect(classifyError("Failed to fetch main from origin: no route")).toBe("git");
+    expect(classifyError("Something else")).toBe("unknown");
+  });
+});
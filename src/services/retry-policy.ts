@@ -0,0 +1,60 @@
+import { config } from "../config";
+import type { AgentErrorKind, AgentTask } from "../types";
+
+/**
+ * Get the 1-based attempt number of a task
+ */
+export function getAttempt(task: AgentTask): number {
+  return task.attempt ?? 1;
+}
+
+/**
+ * Classify an error message thrown during an agent run
+ */
+export function classifyError(message: string): AgentErrorKind {
+  // Setup and verification commands time out the same way on every attempt
+  if (message.startsWith("Setup command")) {
+    return "setup";
+  }
+  if (message.startsWith("Verification failed")) {
+    return "verification";
+  }
+  if (/timed out/i.test(message)) {
+    return "timeout";
+  }
+  if (message.startsWith("Failed to push branch")) {
+    return "push";
+  }
+  if (
+    /API error: 5\d\d/.test(message) ||
+    /InternalError|NetworkError|Ratelimited|ECONNRESET|fetch failed/i.test(message)
+  ) {
+    return "provider_api";
+  }
+  if (
+    /^Failed to (create worktree|stage changes|commit|check git status|fetch|clone)/.test(
+      message
+    )
+  ) {
+    return "git";
+  }
+  return "unknown";
+}
+
+/**
+ * Check whether a failed attempt should be retried automatically
+ */
+export function shouldRetry(task: AgentTask, errorKind?: AgentErrorKind): boolean {
+  if (getAttempt(task) >= config.retryMaxAttempts) {
+    return false;
+  }
+  return config.retryOn.includes(errorKind ?? "unknown");
+}
+
+/**
+ * Delay before the next attempt, doubling from the base delay per attempt
+ */
+export function getRetryDelay(task: AgentTask): number {
+  const delay = config.retryBaseDelay * 2 ** (getAttempt(task) - 1);
+  return Math.min(delay, config.retryMaxDelay);
+}
@@ -0,0 +1,123 @@
+import { resolve } from "path";
+import { config } from "../config";
+import { logger, type IssueLogger } from "../logger";
+import type { AgentTask, ReviewFollowUp, RunRecord } from "../types";
+import { GitHubIssueClient } from "../providers/github/client";
+import { getTypedClient } from "../providers/registry";
+import * as queue from "./queue";
+import { buildReviewReply, buildReviewSummary } from "./prompt-builder";
+
+// Review follow-ups only come from the GitHub provider
+function getClient(instance?: string): GitHubIssueClient {
+  return getTypedClient("github", instance, GitHubIssueClient);
+}
+
+/**
+ * Combine review feedback, skipping reviews and comments already present
+ */
+function mergeFollowUps(
+  existing: ReviewFollowUp | undefined,
+  incoming: ReviewFollowUp
+): ReviewFollowUp {
+  if (!existing) {
+    return incoming;
+  }
+
+  const reviewIds = new Set(existing.reviews.map((r) => r.id));
+  const commentIds = new Set(existing.comments.map((c) => c.id));
+  return {
+    ...existing,
+    reviews: [
+      ...existing.reviews,
+      ...incoming.reviews.filter((r) => !reviewIds.has(r.id)),
+    ],
+    comments: [
+      ...existing.comments,
+      ...incoming.comments.filter((c) => !commentIds.has(c.id)),
+    ],
+  };
+}
+
+/**
+ * Queue a follow-up run addressing review feedback on a PR the agent opened
+ * Feedback arriving while a follow-up is still queued is merged into it;
+ * feedback arriving while the agent is running is not picked up
+ */
+export function enqueueReviewFollowUp(
+  run: RunRecord,
+  branchName: string,
+  review: ReviewFollowUp
+): "enqueued" | "updated" | "already_running" {
+  if (queue.isRunning(run.issueId)) {
+    logger.warn("Review feedback arrived while the agent is running, ignoring", {
+      issueId: run.identifier,
+      prUrl: review.prUrl,
+    });
+    return "already_running";
+  }
+
+  const queued = queue.getTask(run.issueId);
+  if (queued) {
+    queue.updateQueued(run.issueId, {
+      review: mergeFollowUps(queued.review, review),
+    });
+    logger.info("Merged review feedback into queued follow-up", {
+      issueId: run.identifier,
+    });
+    return "updated";
+  }
+
+  const task: AgentTask = {
+    issueId: run.issueId,
+    identifier: run.identifier,
+    repo: run.repo,
+    worktreePath: resolve(config.worktreesPath, branchName),
+    status: "queued",
+    title: run.title,
+    provider: run.provider,
+    instance: run.instance,
+    review,
+  };
+  queue.addTask(task);
+  logger.info("Review follow-up enqueued", {
+    issueId: run.identifier,
+    prUrl: review.prUrl,
+    comments: review.comments.length,
+  });
+  return "enqueued";
+}
+
+/**
+ * Report the outcome of a review follow-up on the pull request: a short
+ * reply in each review thread and one comment with the agent's summary
+ */
+export async function replyToReview(
+  review: ReviewFollowUp,
+  outcome: { commitSha?: string | null; agentSummary?: string },
+  issueLogger: IssueLogger
+): Promise<void> {
+  const githubClient = getClient(review.instance);
+
+  for (const comment of review.comments) {
+    try {
+      await githubClient.replyToReviewComment(
+        review.repo,
+        review.prNumber,
+        comment.id,
+        buildReviewReply(outcome.commitSha)
+      );
+    } catch (e) {
+      issueLogger.warn(`Failed to reply to review comment ${comment.id}: ${e}`);
+    }
+  }
+
+  try {
+    await githubClient.addPullRequestComment(
+      review.repo,
+      review.prNumber,
+      buildReviewSummary(outcome.commitSha, outcome.agentSummary)
+    );
+  } catch (e) {
+    issueLogger.warn(`Failed to comment on pull request: ${e}`);
+  }
+}
@@ -0,0 +1,155 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { AgentTask } from "../types";
+
+// The journal lives in the working directory, so run against a scratch one
+const originalCwd = process.cwd();
+const dir = mkdtempSync(join(tmpdir(), "state-test-"));
+process.chdir(dir);
+
+const state = await import("./state");
+const queue = await import("./queue");
+
+const JOURNAL_FILE = join(dir, "state.jsonl");
+
+function task(issueId: string, fields: Partial<AgentTask> = {}): AgentTask {
+  return {
+    issueId,
+    identifier: issueId,
+    repo: "acme/web",
+    worktreePath: join(dir, issueId),
+    status: "queued",
+    title: `Issue ${issueId}`,
+    provider: "github",
+    ...fields,
+  };
+}
+
+function journalLines(): string[] {
+  return readFileSync(JOURNAL_FILE, "utf-8").split("\n").filter(Boolean);
+}
+
+beforeEach(() => {
+  rmSync(JOURNAL_FILE, { force: true });
+});
+
+afterAll(() => {
+  process.chdir(originalCwd);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("loadState", () => {
+  test("restores pending tasks in enqueue order and running tasks", () => {
+    state.recordEvent("enqueued", task("a"));
+    state.recordEvent("enqueued", task("b"));
+    state.recordEvent("enqueued", task("c"));
+    state.recordEvent("started", task("b", { status: "running" }));
+    state.recordEvent("enqueued", task("d"));
+    state.recordEvent("started", task("d", { status: "running" }));
+    state.recordEvent("completed", task("d", { status: "completed" }));
+
+    const restored = state.loadState();
+
+    expect(restored.pending.map((item) => item.task.issueId)).toEqual(["a", "c"]);
+    expect(restored.running.map((t) => t.issueId)).toEqual(["b"]);
+  });
+
+  test("applies updates to queued tasks without moving them", () => {
+    state.recordEvent("enqueued", task("a"));
+    state.recordEvent("enqueued", task("b"));
+    state.recordEvent("updated", task("a", { title: "Renamed" }));
+
+    const restored = state.loadState();
+
+    expect(restored.pending.map((item) => item.task.issueId)).toEqual(["a", "b"]);
+    expect(restored.pending[0].task.title).toBe("Renamed");
+  });
+
+  test("re-queues a task that is enqueued again after finishing", () => {
+    state.recordEvent("enqueued", task("a"));
+    state.recordEvent("enqueued", task("b"));
+    state.recordEvent("started", task("a", { status: "running" }));
+    state.recordEvent("failed", task("a", { status: "failed" }), "boom");
+    state.recordEvent("enqueued", task("a"));
+
+    const restored = state.loadState();
+
+    expect(restored.pending.map((item) => item.task.issueId)).toEqual(["b", "a"]);
+  });
+
+  test("skips unreadable journal lines", () => {
+    state.recordEvent("enqueued", task("a"));
+    appendFileSync(JOURNAL_FILE, '{"type":"enqueued","issu\n');
+    state.recordEvent("enqueued", task("b"));
+
+    const restored = state.loadState();
+
+    expect(restored.pending.map((item) => item.task.issueId)).toEqual(["a", "b"]);
+  });
+});
+
+describe("updateQueued", () => {
+  test("keeps the task's queue position across a restart", () => {
+    queue.addTask(task("q1"));
+    queue.addTask(task("q2"));
+    queue.updateQueued("q1", { title: "Updated" });
+
+    const restored = state.loadState();
+
+    expect(restored.pending.map((item) => item.task.issueId)).toEqual(["q1", "q2"]);
+    expect(restored.pending[0].task.title).toBe("Updated");
+    expect(JSON.parse(journalLines()[2]).type).toBe("updated");
+
+    queue.removeQueued("q1");
+    queue.removeQueued("q2");
+  });
+});
+
+describe("compactJournal", () => {
+  test("keeps the last 50 events of each issue", () => {
+    state.recordEvent("enqueued", task("a"));
+    for (let i = 0; i < 60; i++) {
+      state.recordEvent("updated", task("a", { title: `Title ${i}` }));
+    }
+
+    state.compactJournal();
+
+    const events = state.readEvents();
+    expect(events).toHaveLength(50);
+    expect(events[49].task.title).toBe("Title 59");
+    expect(state.getTaskHistory("a")).toHaveLength(50);
+  });
+
+  test("drops the oldest finished issues and keeps unfinished ones", () => {
+    state.recordEvent("enqueued", task("pending"));
+    for (let i = 0; i < 501; i++) {
+      state.recordEvent("completed", task(`done-${i}`, { status: "completed" }));
+    }
+
+    state.compactJournal();
+
+    const issueIds = new Set(state.readEvents().map((event) => event.issueId));
+    expect(issueIds.size).toBe(501);
+    expect(issueIds.has("pending")).toBe(true);
+    expect(issueIds.has("done-0")).toBe(false);
+    expect(issueIds.has("done-500")).toBe(true);
+  });
+
+  test("restores the same work after compaction", () => {
+    for (let i = 0; i < 5; i++) {
+      state.recordEvent("enqueued", task(`t${i}`));
+    }
+    state.recordEvent("started", task("t1", { status: "running" }));
+    state.recordEvent("cancelled", task("t3", { status: "cancelled" }));
+    state.recordEvent("updated", task("t0", { title: "Updated" }));
+
+    const before = state.loadState();
+    state.compactJournal();
+    const after = state.loadState();
+
+    expect(after).toEqual(before);
+    expect(after.pending.map((item) => item.task.issueId)).toEqual(["t0", "t2", "t4"]);
+  });
+});
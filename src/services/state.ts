@@ -1,85 +1,274 @@
-import { existsSync, readFileSync, writeFileSync, renameSync } from "fs";
+import {
+  appendFileSync,
+  existsSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+} from "fs";
 import { resolve } from "path";
 import { logger } from "../logger";
-import type { AgentTask, PersistedState } from "../types";
+import type {
+  AgentTask,
+  PersistedState,
+  QueueItem,
+  RestoredState,
+  TaskEvent,
+  TaskEventType,
+} from "../types";
 
-const STATE_FILE = resolve(process.cwd(), "state.json");
-const STATE_TEMP = resolve(process.cwd(), "state.json.tmp");
+const JOURNAL_FILE = resolve(process.cwd(), "state.jsonl");
+const LEGACY_STATE_FILE = resolve(process.cwd(), "state.json");
+
+/** Journal size that triggers a compaction while the server is running */
+const COMPACT_THRESHOLD_BYTES = 5 * 1024 * 1024;
+/** Status changes kept per issue when the journal is compacted */
+const MAX_EVENTS_PER_TASK = 50;
+/** Finished issues whose history survives a compaction */
+const MAX_FINISHED_TASKS = 500;
 
 /**
- * Save the current running agents state to disk
- * Uses atomic write (temp file + rename) to prevent corruption
+ * Convert a task read from disk back into an AgentTask with Date fields
  */
-export async function saveState(runningAgents: AgentTask[]): Promise<void> {
-  const state: PersistedState = {
-    runningAgents,
-    savedAt: new Date().toISOString(),
+function reviveTask(task: AgentTask): AgentTask {
+  return {
+    ...task,
+    startedAt: task.startedAt ? new Date(task.startedAt) : undefined,
+    nextAttemptAt: task.nextAttemptAt ? new Date(task.nextAttemptAt) : undefined,
+  };
+}
+
+/**
+ * Append a task status change to the on-disk journal
+ * Each event is a single JSON line written synchronously, so a crash can at
+ * worst lose the line being written, never corrupt earlier entries
+ */
+export function recordEvent(
+  type: TaskEventType,
+  task: AgentTask,
+  error?: string
+): void {
+  const event: TaskEvent = {
+    type,
+    issueId: task.issueId,
+    task,
+    at: new Date().toISOString(),
+    error,
   };
 
   try {
-    const content = JSON.stringify(state, null, 2);
+    appendFileSync(JOURNAL_FILE, JSON.stringify(event) + "\n", "utf-8");
+    logger.debug("Task event recorded", { type, issueId: task.identifier });
+  } catch (e) {
+    logger.error("Failed to record task event", {
+      type,
+      issueId: task.identifier,
+      error: String(e),
+    });
+    return;
+  }
+
+  if (statSync(JOURNAL_FILE).size > COMPACT_THRESHOLD_BYTES) {
+    compactJournal();
+  }
+}
+
+/**
+ * Read every event from the journal in the order it was written
+ * Skips lines that cannot be parsed (e.g. a partial write during a crash)
+ */
+export function readEvents(): TaskEvent[] {
+  if (!existsSync(JOURNAL_FILE)) {
+    return [];
+  }
 
-    // Write to temp file first
-    writeFileSync(STATE_TEMP, content, "utf-8");
+  const events: TaskEvent[] = [];
+  const lines = readFileSync(JOURNAL_FILE, "utf-8").split("\n");
 
-    // Atomic rename
-    renameSync(STATE_TEMP, STATE_FILE);
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      const event = JSON.parse(line) as TaskEvent;
+      events.push({ ...event, task: reviveTask(event.task) });
+    } catch {
+      logger.warn("Skipping unreadable journal entry", {
+        entry: line.slice(0, 200),
+      });
+    }
+  }
 
-    logger.debug("State saved", { agentCount: runningAgents.length });
+  return events;
+}
+
+/**
+ * Check whether an event leaves its issue with no pending or running work
+ */
+function isFinished(event: TaskEvent): boolean {
+  return (
+    event.type === "completed" ||
+    event.type === "failed" ||
+    event.type === "cancelled"
+  );
+}
+
+/**
+ * Rewrite the journal keeping only recent history
+ * Every issue keeps its last MAX_EVENTS_PER_TASK events, and only the most
+ * recently finished MAX_FINISHED_TASKS issues are kept at all. An issue's
+ * latest event always survives and relative order is preserved, so replaying
+ * the compacted journal restores the same pending and running work. The new
+ * journal is written to a temporary file and renamed over the old one, so a
+ * crash mid-compaction leaves the previous journal intact
+ */
+export function compactJournal(): void {
+  try {
+    const events = readEvents();
+
+    // Walk newest first so the most recent events of each issue are kept
+    const kept: TaskEvent[] = [];
+    const counts = new Map<string, number>();
+    const finished = new Set<string>();
+    for (let i = events.length - 1; i >= 0; i--) {
+      const event = events[i];
+      const count = counts.get(event.issueId);
+      if (count === undefined) {
+        if (isFinished(event)) {
+          if (finished.size >= MAX_FINISHED_TASKS) {
+            counts.set(event.issueId, MAX_EVENTS_PER_TASK);
+            continue;
+          }
+          finished.add(event.issueId);
+        }
+      } else if (count >= MAX_EVENTS_PER_TASK) {
+        continue;
+      }
+      counts.set(event.issueId, (count ?? 0) + 1);
+      kept.push(event);
+    }
+    kept.reverse();
+
+    const tmpFile = `${JOURNAL_FILE}.tmp`;
+    writeFileSync(
+      tmpFile,
+      kept.map((event) => JSON.stringify(event) + "\n").join(""),
+      "utf-8"
+    );
+    renameSync(tmpFile, JOURNAL_FILE);
+
+    logger.info("Compacted task journal", {
+      before: events.length,
+      after: kept.length,
+    });
   } catch (e) {
-    logger.error("Failed to save state", { error: String(e) });
+    logger.error("Failed to compact task journal", { error: String(e) });
   }
 }
 
 /**
- * Load the persisted state from disk
- * Returns empty array if no state file or parse error
+ * Import running tasks from the legacy state.json snapshot into the journal
+ * so upgrading does not lose work that was in flight
  */
-export function loadState(): AgentTask[] {
-  if (!existsSync(STATE_FILE)) {
-    logger.debug("No state file found");
-    return [];
+function migrateLegacyState(): void {
+  if (!existsSync(LEGACY_STATE_FILE) || existsSync(JOURNAL_FILE)) {
+    return;
   }
 
   try {
-    const content = readFileSync(STATE_FILE, "utf-8");
+    const content = readFileSync(LEGACY_STATE_FILE, "utf-8");
     const state = JSON.parse(content) as PersistedState;
 
-    // Convert date strings back to Date objects
-    const tasks = state.runningAgents.map((task) => ({
-      ...task,
-      startedAt: task.startedAt ? new Date(task.startedAt) : undefined,
-    }));
-
-    logger.info(`Loaded ${tasks.length} tasks from state file`, {
-      savedAt: state.savedAt,
-    });
+    for (const task of state.runningAgents) {
+      recordEvent("started", reviveTask(task));
+    }
 
-    return tasks;
+    renameSync(LEGACY_STATE_FILE, `${LEGACY_STATE_FILE}.migrated`);
+    logger.info(
+      `Migrated ${state.runningAgents.length} tasks from legacy state file`
+    );
   } catch (e) {
-    logger.error("Failed to load state", { error: String(e) });
-    return [];
+    logger.error("Failed to migrate legacy state file", { error: String(e) });
   }
 }
 
 /**
- * Clear the state file
+ * Rebuild pending and running work by replaying the journal
+ * Pending tasks keep their original enqueue order
  */
-export function clearState(): void {
+export function loadState(): RestoredState {
+  migrateLegacyState();
+
+  const pending = new Map<string, QueueItem>();
+  const running = new Map<string, AgentTask>();
+
   try {
-    if (existsSync(STATE_FILE)) {
-      writeFileSync(STATE_FILE, JSON.stringify({ runningAgents: [], savedAt: new Date().toISOString() }));
-      logger.debug("State cleared");
+    for (const event of readEvents()) {
+      switch (event.type) {
+        case "enqueued":
+          running.delete(event.issueId);
+          pending.delete(event.issueId);
+          pending.set(event.issueId, {
+            task: event.task,
+            addedAt: new Date(event.at),
+          });
+          break;
+        case "updated": {
+          // Keep the task's place in the queue
+          const item = pending.get(event.issueId);
+          if (item) {
+            item.task = event.task;
+          } else {
+            pending.set(event.issueId, {
+              task: event.task,
+              addedAt: new Date(event.at),
+            });
+          }
+          break;
+        }
+        case "started":
+          pending.delete(event.issueId);
+          running.set(event.issueId, event.task);
+          break;
+        case "completed":
+        case "failed":
+        case "cancelled":
+          pending.delete(event.issueId);
+          running.delete(event.issueId);
+          break;
+      }
     }
   } catch (e) {
-    logger.error("Failed to clear state", { error: String(e) });
+    logger.error("Failed to load state", { error: String(e) });
+    return { pending: [], running: [] };
   }
+
+  const state: RestoredState = {
+    pending: Array.from(pending.values()),
+    running: Array.from(running.values()),
+  };
+
+  logger.info("Loaded state from journal", {
+    pending: state.pending.length,
+    running: state.running.length,
+  });
+
+  compactJournal();
+
+  return state;
+}
+
+/**
+ * Get the most recent status changes for a single issue, oldest first
+ */
+export function getTaskHistory(issueId: string): TaskEvent[] {
+  return readEvents()
+    .filter((event) => event.issueId === issueId)
+    .slice(-MAX_EVENTS_PER_TASK);
 }
 
 /**
  * Check if there are incomplete tasks from a previous run
  */
 export function hasIncompleteTasks(): boolean {
-  const tasks = loadState();
-  return tasks.length > 0;
+  const state = loadState();
+  return state.pending.length > 0 || state.running.length > 0;
 }
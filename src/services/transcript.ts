@@ -0,0 +1,233 @@
+import type { IssueLogger } from "../logger";
+import type { AgentTranscript, TokenUsage } from "../types";
+
+/**
+ * Tools whose input names a file they modify, and the input key holding it
+ */
+const FILE_EDIT_TOOLS: Record<string, string> = {
+  Edit: "file_path",
+  MultiEdit: "file_path",
+  Write: "file_path",
+  NotebookEdit: "notebook_path",
+};
+
+/**
+ * Content block inside an assistant or user message
+ */
+interface ContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  is_error?: boolean;
+}
+
+/**
+ * Usage object as reported by Claude Code
+ */
+interface RawUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+/**
+ * A single line of `claude --output-format stream-json` output
+ */
+interface StreamEvent {
+  type: "system" | "assistant" | "user" | "result" | string;
+  subtype?: string;
+  session_id?: string;
+  model?: string;
+  message?: {
+    content?: ContentBlock[] | string;
+  };
+  result?: string;
+  is_error?: boolean;
+  total_cost_usd?: number;
+  num_turns?: number;
+  duration_ms?: number;
+  usage?: RawUsage;
+}
+
+/**
+ * Incremental parser for Claude Code's stream-json output
+ */
+export interface TranscriptParser {
+  /** Feed a chunk of stdout; complete lines are parsed and logged */
+  push(chunk: string): void;
+  /** Flush any trailing partial line and return the transcript */
+  finish(): AgentTranscript;
+}
+
+/**
+ * Convert Claude Code's usage object into TokenUsage
+ */
+function toUsage(usage: RawUsage | undefined): TokenUsage {
+  return {
+    inputTokens: usage?.input_tokens ?? 0,
+    outputTokens: usage?.output_tokens ?? 0,
+    cacheCreationInputTokens: usage?.cache_creation_input_tokens ?? 0,
+    cacheReadInputTokens: usage?.cache_read_input_tokens ?? 0,
+  };
+}
+
+/**
+ * Combine the transcripts of consecutive Claude sessions in one run
+ * The later session's result and session ID win; counts and usage are summed
+ */
+export function mergeTranscripts(
+  first: AgentTranscript,
+  second: AgentTranscript
+): AgentTranscript {
+  const sum = (a?: number, b?: number): number | undefined =>
+    a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+
+  return {
+    sessionId: second.sessionId ?? first.sessionId,
+    model: second.model ?? first.model,
+    messages: [...first.messages, ...second.messages],
+    toolCalls: [...first.toolCalls, ...second.toolCalls],
+    fileEdits: [...first.fileEdits, ...second.fileEdits],
+    usage: {
+      inputTokens: first.usage.inputTokens + second.usage.inputTokens,
+      outputTokens: first.usage.outputTokens + second.usage.outputTokens,
+      cacheCreationInputTokens:
+        first.usage.cacheCreationInputTokens + second.usage.cacheCreationInputTokens,
+      cacheReadInputTokens:
+        first.usage.cacheReadInputTokens + second.usage.cacheReadInputTokens,
+    },
+    costUsd: sum(first.costUsd, second.costUsd),
+    numTurns: sum(first.numTurns, second.numTurns),
+    durationMs: sum(first.durationMs, second.durationMs),
+    result: second.result ?? first.result,
+    isError: second.isError,
+  };
+}
+
+/**
+ * Create a parser that builds a transcript from stream-json output,
+ * writing a readable account of the session to the issue log as it goes
+ */
+export function createTranscriptParser(issueLogger: IssueLogger): TranscriptParser {
+  const transcript: AgentTranscript = {
+    messages: [],
+    toolCalls: [],
+    fileEdits: [],
+    usage: toUsage(undefined),
+  };
+  let buffer = "";
+
+  const handleEvent = (event: StreamEvent): void => {
+    if (event.session_id) {
+      transcript.sessionId = event.session_id;
+    }
+
+    switch (event.type) {
+      case "system":
+        if (event.subtype === "init") {
+          transcript.model = event.model;
+          issueLogger.info("Claude session started", {
+            sessionId: event.session_id,
+            model: event.model,
+          });
+        }
+        break;
+
+      case "assistant": {
+        const content = event.message?.content;
+        if (!Array.isArray(content)) break;
+        for (const block of content) {
+          if (block.type === "text" && block.text?.trim()) {
+            transcript.messages.push(block.text);
+            issueLogger.info(`Claude: ${block.text.trim()}`);
+          } else if (block.type === "tool_use" && block.id && block.name) {
+            const input = block.input ?? {};
+            transcript.toolCalls.push({ id: block.id, name: block.name, input });
+            issueLogger.debug(`Tool call: ${block.name}`, {
+              input: JSON.stringify(input).slice(0, 500),
+            });
+
+            const pathKey = FILE_EDIT_TOOLS[block.name];
+            if (pathKey && typeof input[pathKey] === "string") {
+              transcript.fileEdits.push({
+                path: input[pathKey] as string,
+                tool: block.name,
+              });
+            }
+          }
+        }
+        break;
+      }
+
+      case "user": {
+        const content = event.message?.content;
+        if (!Array.isArray(content)) break;
+        for (const block of content) {
+          if (block.type !== "tool_result") continue;
+          const call = transcript.toolCalls.find((c) => c.id === block.tool_use_id);
+          if (call) {
+            call.isError = block.is_error ?? false;
+            if (call.isError) {
+              issueLogger.warn(`Tool ${call.name} returned an error`);
+            }
+          }
+        }
+        break;
+      }
+
+      case "result":
+        transcript.result = event.result;
+        transcript.isError = event.is_error ?? event.subtype !== "success";
+        transcript.costUsd = event.total_cost_usd;
+        transcript.numTurns = event.num_turns;
+        transcript.durationMs = event.duration_ms;
+        transcript.usage = toUsage(event.usage);
+        issueLogger.info("Claude session finished", {
+          subtype: event.subtype,
+          turns: event.num_turns,
+          costUsd: event.total_cost_usd,
+          usage: transcript.usage,
+        });
+        break;
+    }
+  };
+
+  const handleLine = (line: string): void => {
+    if (!line.trim()) return;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      // Not JSON - log as plain output so nothing is lost
+      issueLogger.debug(line.trim());
+      return;
+    }
+    // Stream events are objects; log anything else (null, numbers, strings) as output
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      issueLogger.debug(line.trim());
+      return;
+    }
+    handleEvent(value as StreamEvent);
+  };
+
+  return {
+    push(chunk: string): void {
+      buffer += chunk;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        handleLine(line);
+      }
+    },
+
+    finish(): AgentTranscript {
+      handleLine(buffer);
+      buffer = "";
+      return transcript;
+    },
+  };
+}
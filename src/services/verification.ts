@@ -0,0 +1,82 @@
+import type { IssueLogger } from "../logger";
+import type { VerificationCheck, VerificationResult } from "../types";
+import { runShellCommand } from "./git";
+import { describeCheckOutcome } from "./prompt-builder";
+
+// Keep the end of long output, where compilers and test runners report failures
+const MAX_OUTPUT_LENGTH = 4000;
+
+/**
+ * Trim command output to its last MAX_OUTPUT_LENGTH characters
+ */
+function truncateOutput(output: string): string {
+  const trimmed = output.trim();
+  if (trimmed.length <= MAX_OUTPUT_LENGTH) {
+    return trimmed;
+  }
+  return `... (truncated)\n${trimmed.slice(-MAX_OUTPUT_LENGTH)}`;
+}
+
+/**
+ * Run the repository's verification commands in a worktree
+ * Every command runs even after a failure, so all problems are reported at once.
+ * Aborting the signal kills the running command and skips the rest.
+ */
+export async function runVerification(
+  worktreePath: string,
+  commands: string[],
+  timeout: number,
+  issueLogger: IssueLogger,
+  signal?: AbortSignal
+): Promise<VerificationResult> {
+  const checks: VerificationCheck[] = [];
+
+  for (const command of commands) {
+    issueLogger.info(`Running verification command: ${command}`);
+    const startedAt = Date.now();
+    const result = await runShellCommand(command, worktreePath, { timeout, signal });
+    if (result.aborted) {
+      issueLogger.info(`Verification stopped: ${command}`);
+      break;
+    }
+    const output = truncateOutput(
+      [result.stdout, result.stderr].filter((s) => s.trim()).join("\n")
+    );
+
+    const check: VerificationCheck = {
+      command,
+      exitCode: result.exitCode,
+      passed: result.exitCode === 0 && !result.timedOut,
+      output,
+      durationMs: Date.now() - startedAt,
+    };
+    if (result.timedOut) {
+      check.timedOut = true;
+    }
+    checks.push(check);
+
+    if (check.passed) {
+      issueLogger.info(`Verification passed: ${command}`);
+      if (output) issueLogger.debug(output);
+    } else {
+      issueLogger.warn(`Verification failed: ${command} (${describeCheckOutcome(check)})`);
+      if (output) issueLogger.warn(output);
+    }
+  }
+
+  return { passed: checks.every((c) => c.passed), checks };
+}
+
+/**
+ * Describe the failing checks in one line, for error messages
+ */
+export function describeFailures(result: VerificationResult): string {
+  const failed = result.checks.filter((c) => !c.passed);
+  return failed
+    .map((c) =>
+      c.timedOut
+        ? `"${c.command}" ${describeCheckOutcome(c)}`
+        : `"${c.command}" exited with code ${c.exitCode}`
+    )
+    .join(", ");
+}
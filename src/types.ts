@@ -1,7 +1,13 @@
 /**
- * Supported issue providers
+ * Name of a registered issue provider (e.g. "linear", "github", "gitlab",
+ * "jira"); see providers/registry.ts
  */
-export type IssueProvider = "linear" | "github";
+export type IssueProvider = string;
+
+/**
+ * Supported code hosts, where branches are pushed and PRs opened
+ */
+export type CodeHostKind = "github" | "gitlab";
 
 /**
  * Generic label from any issue provider
@@ -46,45 +52,168 @@ export interface Issue {
   parent?: ParentIssue;
   /** Provider-specific repository identifier */
   repository?: string;
+  /** Link to the issue in the provider's web UI */
+  url?: string;
   /** Provider-specific metadata */
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * What to do with tasks that were running when the server stopped
+ * - requeue: start over from the top of the issue in a fresh worktree and branch
+ * - resume: continue in the existing worktree (falls back to requeue)
+ * - fail: mark failed and comment on the issue
+ */
+export type RecoveryPolicy = "requeue" | "resume" | "fail";
+
+/**
+ * What to do when verification commands fail after the agent's changes
+ * - fix: give Claude the failure output and one chance to fix it
+ * - draft: open the PR as a draft
+ * - fail: mark the run failed without committing
+ */
+export type VerificationPolicy = "fix" | "draft" | "fail";
+
+/**
+ * Classification of why an agent run failed, used to decide on retries
+ */
+export type AgentErrorKind =
+  | "timeout"
+  | "setup"
+  | "claude_exit"
+  | "push"
+  | "provider_api"
+  | "git"
+  | "verification"
+  | "unknown";
+
+/**
+ * A repository the agent is allowed to work on
+ */
+export interface RepoRegistryEntry {
+  /** Local clone path, absolute or relative to reposBasePath (default: the entry name) */
+  path?: string;
+  /** Clone URL used when the local clone is missing */
+  remote?: string;
+  /** Other values that refer to this repository (custom field values, owner/repo) */
+  aliases?: string[];
+  /** Linear team keys whose issues use this repository when none is specified */
+  linearTeams?: string[];
+  /** Linear project names or IDs whose issues use this repository when none is specified */
+  linearProjects?: string[];
+}
+
+/**
+ * Where an issue's repository came from: set on the issue (a custom field,
+ * a repository link or the issue's own repository), a `repo:<name>` label,
+ * or the registry default for the issue's team or project
+ */
+export type RepoSource = "issue" | "label" | "team" | "project";
+
+/**
+ * Per-repository overrides for agent behavior
+ * Read from `.issue-agent.json` in the repository root and from the
+ * `repos` map in config.json (which takes precedence)
+ */
+export interface RepoSettings {
+  /** Branch to base work on and open PRs against */
+  baseBranch?: string;
+  /** Agent timeout in milliseconds */
+  agentTimeout?: number;
+  /** Extra instructions appended to the prompt */
+  promptInstructions?: string[];
+  /** Tools Claude may use without asking, passed as --allowedTools */
+  allowedTools?: string[];
+  /** Shell commands run in the worktree before Claude starts */
+  setupCommands?: string[];
+  /** Commit message template; supports {identifier}, {title} and {branch} */
+  commitMessageFormat?: string;
+  /** Shell commands (typecheck, lint, tests) run before committing */
+  verifyCommands?: string[];
+  /** Timeout for each setup and verification command in milliseconds */
+  commandTimeout?: number;
+  /** What to do when a verification command fails */
+  verificationPolicy?: VerificationPolicy;
+  /** Maximum Claude sessions per run, including follow-ups */
+  maxIterations?: number;
+  /** Open the PR as a draft */
+  prDraft?: boolean;
+  /** GitHub users or org/team slugs; "@creator" and "@codeowners" are expanded */
+  prReviewers?: string[];
+  /** Labels applied to the PR */
+  prLabels?: string[];
+  /** GitHub users assigned to the PR; "@trigger" is the user who triggered the run */
+  prAssignees?: string[];
+  /** Link the PR to its issue ("Closes" keyword or Linear attachment) */
+  prLinkIssue?: boolean;
+  /** Where PRs are opened; detected from the origin remote when unset */
+  codeHost?: CodeHostKind;
+}
+
 /**
  * Configuration for the Linear Agent service
  */
 export interface Config {
-  // Linear API (optional - only required if using Linear provider)
-  linearApiKey?: string;
-  linearWebhookSecret?: string;
-  linearTriggerLabel: string;
-  repoCustomFieldName: string;
-
-  // GitHub API (optional - only required if using GitHub provider)
+  // Code host credentials, used to open pull requests wherever the issue
+  // came from. Issue provider settings are declared by each provider (see
+  // providers/registry.ts)
   githubToken?: string;
-  githubWebhookSecret?: string;
-  githubTriggerLabel: string;
-  githubInProgressLabel: string;
-  githubReviewLabel: string;
+  // GitHub App, used instead of githubToken when set
+  githubAppId?: string;
+  githubAppPrivateKey?: string; // PEM, "\n" escapes allowed
+  githubAppPrivateKeyPath?: string;
+  gitlabUrl: string; // e.g. "https://gitlab.example.com"
+  gitlabToken?: string;
 
   // Git paths
   reposBasePath: string;
   worktreesPath: string;
 
+  // Cloning of repositories missing from reposBasePath
+  repoUrlTemplate?: string; // e.g. "git@github.com:{repo}.git"
+  repoUrls: Record<string, string>; // repository identifier -> clone URL
+
+  // Repository registry (config.json only); when non-empty it is an allow-list
+  repositories: Record<string, RepoRegistryEntry>;
+
   // Agent settings
   maxConcurrentAgents: number;
   includeComments: boolean;
   agentTimeout: number; // in milliseconds
+  commandTimeout: number; // per setup or verification command, in milliseconds
+  agentMention: string; // e.g. "@agent"; comments containing it start a follow-up run
+
+  // Per-repository overrides keyed by repository identifier (config.json only)
+  repos: Record<string, RepoSettings>;
+
+  // Named provider instances, e.g. several Linear workspaces or GitHub orgs:
+  // provider name -> instance name -> settings (config.json only)
+  providerInstances: Record<IssueProvider, Record<string, Record<string, string>>>;
+
+  // Retry policy
+  retryMaxAttempts: number; // total attempts including the first
+  retryBaseDelay: number; // in milliseconds, doubled per attempt
+  retryMaxDelay: number; // in milliseconds
+  retryOn: AgentErrorKind[];
 
   // Server
   port: number;
 
   // Recovery
   autoCleanOrphans: boolean;
+  removeWorktreeOnCancel: boolean;
+  recoveryPolicy: RecoveryPolicy;
+
+  // Verification
+  verificationPolicy: VerificationPolicy;
+  agentMaxIterations: number;
 
-  // Linear status mapping
-  inProgressStatus: string;
-  reviewStatus: string;
+  // Pull request defaults (overridable per repository)
+  prDraft: boolean;
+  prReviewers: string[];
+  prLabels: string[];
+  prAssignees: string[];
+  prLinkIssue: boolean;
 
   // Logging
   logLevel: "error" | "warn" | "info" | "debug";
@@ -153,7 +282,12 @@ export interface LinearIssue {
 /**
  * Status of an agent task
  */
-export type AgentTaskStatus = "queued" | "running" | "completed" | "failed";
+export type AgentTaskStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
 
 /**
  * A task representing work for the agent
@@ -167,6 +301,171 @@ export interface AgentTask {
   startedAt?: Date;
   title: string;
   provider: IssueProvider;
+  /** Provider instance the task came from (undefined means the default instance) */
+  instance?: string;
+  /** Continue from an interrupted run's worktree instead of starting fresh */
+  resume?: boolean;
+  /** 1-based attempt number (undefined means first attempt) */
+  attempt?: number;
+  /** Earliest time a retry may start */
+  nextAttemptAt?: Date;
+  /** Error from the previous failed attempt */
+  lastError?: string;
+  /** Set for follow-up runs addressing review feedback on the agent's PR */
+  review?: ReviewFollowUp;
+  /** Set for follow-up runs started by a comment mentioning the agent */
+  mention?: MentionFollowUp;
+  /** GitHub login of the user who triggered the run, if known */
+  triggeredBy?: string;
+  /** How the repository was resolved, reported when the agent starts */
+  repoSource?: RepoSource;
+}
+
+/**
+ * A comment mentioning the agent, to be treated as its latest instruction
+ */
+export interface MentionFollowUp {
+  commentId: string;
+  author: string;
+  body: string;
+  /** PR opened by an earlier run, continued instead of opening a new one */
+  prUrl?: string;
+  /** Branch that PR is opened against */
+  baseBranch?: string;
+}
+
+/**
+ * A review comment left on the agent's pull request
+ */
+export interface ReviewComment {
+  /** GitHub comment ID, used to reply in its thread */
+  id: number;
+  author: string;
+  body: string;
+  path?: string;
+  line?: number;
+}
+
+/**
+ * Review feedback to address on an existing pull request
+ */
+export interface ReviewFollowUp {
+  /** Repository owning the PR, as owner/repo */
+  repo: string;
+  prNumber: number;
+  prUrl: string;
+  /** Branch the PR is opened against */
+  baseBranch: string;
+  /** Overall review bodies, by reviewer */
+  reviews: { id: number; author: string; body: string }[];
+  comments: ReviewComment[];
+  /** GitHub provider instance that received the review, used to reply */
+  instance?: string;
+}
+
+/**
+ * A tool invocation made by Claude during a run
+ */
+export interface TranscriptToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+  /** Set once the tool result arrives */
+  isError?: boolean;
+}
+
+/**
+ * A file touched by one of Claude's editing tools
+ */
+export interface TranscriptFileEdit {
+  path: string;
+  tool: string;
+}
+
+/**
+ * Token usage reported by Claude Code
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+/**
+ * Structured record of a Claude Code session parsed from stream-json output
+ */
+export interface AgentTranscript {
+  sessionId?: string;
+  model?: string;
+  /** Assistant text messages in order */
+  messages: string[];
+  toolCalls: TranscriptToolCall[];
+  fileEdits: TranscriptFileEdit[];
+  usage: TokenUsage;
+  costUsd?: number;
+  numTurns?: number;
+  durationMs?: number;
+  /** Claude's final result message */
+  result?: string;
+  isError?: boolean;
+}
+
+/**
+ * A commit made on the agent's branch
+ */
+export interface CommitInfo {
+  sha: string;
+  subject: string;
+}
+
+/**
+ * What changed on the agent's branch relative to its base
+ */
+export interface ChangeSummary {
+  filesChanged: number;
+  insertions: number;
+  deletions: number;
+  commits: CommitInfo[];
+}
+
+/**
+ * Outcome of one verification command
+ */
+export interface VerificationCheck {
+  command: string;
+  exitCode: number;
+  passed: boolean;
+  /** Combined stdout and stderr, truncated */
+  output: string;
+  durationMs: number;
+  /** Killed after running longer than the command timeout */
+  timedOut?: boolean;
+}
+
+/**
+ * Outcome of running a repository's verification commands
+ */
+export interface VerificationResult {
+  passed: boolean;
+  checks: VerificationCheck[];
+  /** Claude was given the failures and asked to fix them */
+  fixAttempted?: boolean;
+}
+
+/**
+ * The pull request opened for a run and the metadata applied to it
+ */
+export interface PullRequestInfo {
+  url: string;
+  /** Code host the PR was opened on (a merge request on GitLab) */
+  host?: CodeHostKind;
+  draft: boolean;
+  reviewers: string[];
+  labels: string[];
+  assignees: string[];
+  /** Issue the PR was linked to, by identifier */
+  linkedIssue?: string;
 }
 
 /**
@@ -179,6 +478,70 @@ export interface AgentResult {
   prUrl?: string;
   summary?: string;
   hasChanges: boolean;
+  /** Branch the work was based on and the PR targets */
+  baseBranch?: string;
+  /** Exit code of the Claude process, if it ran */
+  exitCode?: number;
+  transcript?: AgentTranscript;
+  changes?: ChangeSummary;
+  verification?: VerificationResult;
+  pullRequest?: PullRequestInfo;
+  /** Number of Claude sessions in the run */
+  iterations?: number;
+  errorKind?: AgentErrorKind;
+  /** Run was stopped by a cancellation request */
+  cancelled?: boolean;
+}
+
+/**
+ * Final status of a single agent run
+ */
+export type RunStatus = "completed" | "failed" | "cancelled";
+
+/**
+ * Persisted record of a single agent run, for auditing
+ */
+export interface RunRecord {
+  runId: string;
+  issueId: string;
+  identifier: string;
+  title: string;
+  provider: IssueProvider;
+  instance?: string;
+  repo: string;
+  branchName?: string;
+  baseBranch?: string;
+  status: RunStatus;
+  attempt: number;
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+  exitCode?: number;
+  success: boolean;
+  error?: string;
+  errorKind?: AgentErrorKind;
+  hasChanges: boolean;
+  summary?: string;
+  prUrl?: string;
+  logPath: string;
+  /** File holding the run's transcript, loaded on request */
+  transcriptFile?: string;
+  /** Inline in records written before transcripts had their own files */
+  transcript?: AgentTranscript;
+  verification?: VerificationResult;
+  iterations?: number;
+  pullRequest?: PullRequestInfo;
+}
+
+/**
+ * Filters for querying run history
+ */
+export interface RunFilter {
+  provider?: IssueProvider;
+  repo?: string;
+  status?: RunStatus;
+  since?: Date;
+  until?: Date;
 }
 
 /**
@@ -203,6 +566,11 @@ export interface WebhookPayload {
     description?: string;
     labelIds?: string[];
     teamId?: string;
+    // Comment events
+    body?: string;
+    issueId?: string;
+    userId?: string;
+    user?: { id: string; name: string };
   };
   updatedFrom?: {
     labelIds?: string[];
@@ -232,13 +600,52 @@ export interface QueueStatus {
     identifier: string;
     repo: string;
     startedAt: Date;
+    attempt: number;
+  }>;
+  scheduledRetries: Array<{
+    issueId: string;
+    identifier: string;
+    attempt: number;
+    nextAttemptAt: Date;
+    lastError?: string;
   }>;
 }
 
 /**
- * Persisted state for crash recovery
+ * Legacy snapshot format (state.json), read once for migration
  */
 export interface PersistedState {
   runningAgents: AgentTask[];
   savedAt: string;
 }
+
+/**
+ * Kind of status change recorded in the task journal
+ */
+export type TaskEventType =
+  | "enqueued"
+  | "updated"
+  | "started"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+/**
+ * A single entry in the on-disk task journal
+ */
+export interface TaskEvent {
+  type: TaskEventType;
+  issueId: string;
+  /** Snapshot of the task at the time of the event */
+  task: AgentTask;
+  at: string;
+  error?: string;
+}
+
+/**
+ * Pending and running work rebuilt from the journal for crash recovery
+ */
+export interface RestoredState {
+  pending: QueueItem[];
+  running: AgentTask[];
+}